@@ -4,11 +4,30 @@ import {
 	EagleApiResponse,
 	EagleItem,
 	EagleFolder,
+	EagleFolderOption,
 	EagleLibraryInfo,
 	EagleApplicationInfo,
 	CMDSPACEEagleSettings,
 	R2UploadResult,
 } from './types';
+import {
+	CMDSEagleError,
+	EagleApiError,
+	EagleTimeoutError,
+	EagleNotRunningError,
+	EagleHttpError,
+	EagleMalformedResponseError,
+	ItemNotFoundError,
+	FileUnreadableError,
+	CloudProviderError,
+	isRetryableError,
+	getErrorMessage,
+	cloudErrorFromStatus,
+	toCloudError,
+} from './errors';
+
+const GET_RETRY_ATTEMPTS = 2;
+const RETRY_BASE_DELAY_MS = 250;
 
 export class EagleApiService {
 	private baseUrl: string;
@@ -35,20 +54,18 @@ export class EagleApiService {
 
 	async isConnected(): Promise<boolean> {
 		try {
-			const info = await this.getApplicationInfo();
-			return info !== null;
+			const endpoint = '/api/application/info';
+			this.unwrap(await this.get<EagleApplicationInfo>(endpoint, false), endpoint);
+			return true;
 		} catch {
 			return false;
 		}
 	}
 
-	async getApplicationInfo(): Promise<EagleApplicationInfo | null> {
-		try {
-			const response = await this.get<EagleApplicationInfo>('/api/application/info');
-			return response.data ?? null;
-		} catch {
-			return null;
-		}
+	async getApplicationInfo(): Promise<EagleApplicationInfo> {
+		const endpoint = '/api/application/info';
+		const response = await this.get<EagleApplicationInfo>(endpoint);
+		return this.unwrap(response, endpoint);
 	}
 
 	async listItems(options?: {
@@ -77,22 +94,22 @@ export class EagleApiService {
 		return response.data ?? [];
 	}
 
-	async getItemInfo(id: string): Promise<EagleItem | null> {
-		try {
-			const response = await this.get<EagleItem>(`/api/item/info?id=${id}`);
-			return response.data ?? null;
-		} catch {
-			return null;
+	async getItemInfo(id: string): Promise<EagleItem> {
+		const endpoint = '/api/item/info';
+		const response = await this.get<EagleItem>(`${endpoint}?id=${id}`);
+		if (response.status !== 'success' || !response.data) {
+			throw itemError(id, endpoint, response, true);
 		}
+		return response.data;
 	}
 
-	async getThumbnailPath(id: string): Promise<string | null> {
-		try {
-			const response = await this.get<string>(`/api/item/thumbnail?id=${id}`);
-			return response.data ?? null;
-		} catch {
-			return null;
+	async getThumbnailPath(id: string): Promise<string> {
+		const endpoint = '/api/item/thumbnail';
+		const response = await this.get<string>(`${endpoint}?id=${id}`);
+		if (response.status !== 'success' || !response.data) {
+			throw itemError(id, endpoint, response, true);
 		}
+		return response.data;
 	}
 
 	async updateItem(
@@ -103,15 +120,14 @@ export class EagleApiService {
 			url?: string;
 			star?: number;
 		}
-	): Promise<boolean> {
-		try {
-			const response = await this.post<null>('/api/item/update', {
-				id,
-				...updates,
-			});
-			return response.status === 'success';
-		} catch {
-			return false;
+	): Promise<void> {
+		const endpoint = '/api/item/update';
+		const response = await this.post<null>(endpoint, {
+			id,
+			...updates,
+		});
+		if (response.status !== 'success') {
+			throw itemError(id, endpoint, response, false);
 		}
 	}
 
@@ -122,13 +138,14 @@ export class EagleApiService {
 		tags?: string[];
 		annotation?: string;
 		folderId?: string;
-	}): Promise<boolean> {
-		try {
-			const response = await this.post<null>('/api/item/addFromURL', options);
-			return response.status === 'success';
-		} catch {
-			return false;
+	}): Promise<string | null> {
+		const endpoint = '/api/item/addFromURL';
+		const response = await this.post<string>(endpoint, options);
+		if (response.status !== 'success') {
+			throw new EagleApiError(`Eagle could not import ${options.url}${response.message ? `: ${response.message}` : ''}`, endpoint);
 		}
+		// Older Eagle versions do not return the new item's id
+		return response.data ?? null;
 	}
 
 	async addFromPath(options: {
@@ -138,50 +155,65 @@ export class EagleApiService {
 		tags?: string[];
 		annotation?: string;
 		folderId?: string;
-	}): Promise<{ success: boolean; itemId?: string }> {
-		try {
-			const response = await this.post<string>('/api/item/addFromPath', options);
-			if (response.status === 'success' && response.data) {
-				return { success: true, itemId: response.data };
-			}
-			return { success: false };
-		} catch {
-			return { success: false };
+	}): Promise<string> {
+		const endpoint = '/api/item/addFromPath';
+		const response = await this.post<string>(endpoint, options);
+		if (response.status !== 'success' || !response.data) {
+			throw new EagleApiError(`Eagle could not import ${options.path}${response.message ? `: ${response.message}` : ''}`, endpoint);
 		}
+		return response.data;
 	}
 
 	async listFolders(): Promise<EagleFolder[]> {
-		try {
-			const response = await this.get<EagleFolder[]>('/api/folder/list');
-			return response.data ?? [];
-		} catch {
-			return [];
-		}
+		const response = await this.get<EagleFolder[]>('/api/folder/list');
+		return response.data ?? [];
 	}
 
-	async getLibraryInfo(): Promise<EagleLibraryInfo | null> {
-		try {
-			const response = await this.get<EagleLibraryInfo>('/api/library/info');
-			return response.data ?? null;
-		} catch {
-			return null;
-		}
+	async createFolder(folderName: string, parent?: string): Promise<EagleFolder> {
+		const endpoint = '/api/folder/create';
+		const response = await this.post<EagleFolder>(endpoint, { folderName, parent });
+		return this.unwrap(response, endpoint);
+	}
+
+	async renameFolder(folderId: string, newName: string): Promise<EagleFolder> {
+		const endpoint = '/api/folder/rename';
+		const response = await this.post<EagleFolder>(endpoint, { folderId, newName });
+		return this.unwrap(response, endpoint);
+	}
+
+	async updateFolder(folderId: string, updates: {
+		newName?: string;
+		newDescription?: string;
+		newColor?: string;
+	}): Promise<EagleFolder> {
+		const endpoint = '/api/folder/update';
+		const response = await this.post<EagleFolder>(endpoint, { folderId, ...updates });
+		return this.unwrap(response, endpoint);
+	}
+
+	async listFolderOptions(): Promise<EagleFolderOption[]> {
+		const paths = flattenFolderPaths(await this.listFolders());
+		return [...paths.entries()]
+			.map(([id, path]) => ({ id, name: path.split('/').pop() ?? path, path }))
+			.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	async getLibraryInfo(): Promise<EagleLibraryInfo> {
+		const endpoint = '/api/library/info';
+		const response = await this.get<EagleLibraryInfo>(endpoint);
+		return this.unwrap(response, endpoint);
 	}
 
 	async getLibraryPath(): Promise<string | null> {
 		try {
-			const response = await requestUrl({
-				url: `${this.baseUrl}/api/library/info`,
-				method: 'GET',
-			});
-			const json = response.json;
+			const json = await this.get<{ library?: string | { path?: string }; path?: string }>('/api/library/info');
 			
-			if (json?.status === 'success' && json?.data) {
+			if (json.status === 'success' && json.data) {
 				const data = json.data;
 				if (typeof data.library === 'string') {
 					return data.library;
 				}
-				if (typeof data.library?.path === 'string') {
+				if (typeof data.library === 'object' && typeof data.library.path === 'string') {
 					return data.library.path;
 				}
 				if (typeof data.path === 'string') {
@@ -206,12 +238,19 @@ export class EagleApiService {
 		return path.split('/').pop()?.replace('.library', '') || null;
 	}
 
-	async refreshThumbnail(id: string): Promise<boolean> {
-		try {
-			const response = await this.post<null>('/api/item/refreshThumbnail', { id });
-			return response.status === 'success';
-		} catch {
-			return false;
+	async switchLibrary(libraryPath: string): Promise<void> {
+		const endpoint = '/api/library/switch';
+		const response = await this.post<null>(endpoint, { libraryPath });
+		if (response.status !== 'success') {
+			throw new EagleApiError(`Eagle could not open ${libraryPath}${response.message ? `: ${response.message}` : ''}`, endpoint);
+		}
+	}
+
+	async refreshThumbnail(id: string): Promise<void> {
+		const endpoint = '/api/item/refreshThumbnail';
+		const response = await this.post<null>(endpoint, { id });
+		if (response.status !== 'success') {
+			throw itemError(id, endpoint, response, false);
 		}
 	}
 
@@ -233,26 +272,27 @@ export class EagleApiService {
 		}
 	}
 
-	async getOriginalFilePath(item: EagleItem): Promise<string | null> {
-		const thumbnailPath = await this.getThumbnailPath(item.id);
-		if (thumbnailPath) {
+	async getOriginalFilePath(item: EagleItem): Promise<string> {
+		try {
+			const thumbnailPath = await this.getThumbnailPath(item.id);
 			console.log('[CMDS Eagle] thumbnailPath:', thumbnailPath);
 			const decodedPath = this.safeDecodeUri(thumbnailPath);
 			const folderPath = decodedPath.substring(0, decodedPath.lastIndexOf('/'));
 			const originalPath = `${folderPath}/${item.name}.${item.ext}`;
 			console.log('[CMDS Eagle] originalPath:', originalPath);
 			return originalPath;
+		} catch (error) {
+			if (!(error instanceof ItemNotFoundError)) throw error;
 		}
 
 		const libraryPath = await this.getLibraryPath();
-		if (libraryPath && typeof libraryPath === 'string') {
+		if (libraryPath) {
 			const originalPath = `${libraryPath}/images/${item.id}.info/${item.name}.${item.ext}`;
 			console.log('[CMDS Eagle] originalPath (from library):', originalPath);
 			return originalPath;
 		}
 
-		console.log('[CMDS Eagle] Could not get file path for item:', item.id);
-		return null;
+		throw new ItemNotFoundError(item.id);
 	}
 
 	private safeDecodeUri(str: string): string {
@@ -265,7 +305,7 @@ export class EagleApiService {
 
 	async uploadToR2(item: EagleItem): Promise<R2UploadResult> {
 		if (!this.r2WorkerUrl || !this.r2ApiKey || !this.r2PublicUrl) {
-			return { success: false, error: 'R2 settings not configured' };
+			return { success: false, error: new CloudProviderError('Cloudflare R2', 'Cloudflare R2 is not configured. Add the Worker URL, API key and public URL in settings.') };
 		}
 
 		const existingKey = getR2KeyFromItem(item);
@@ -279,18 +319,12 @@ export class EagleApiService {
 
 		try {
 			const filePath = await this.getOriginalFilePath(item);
-			if (!filePath) {
-				return { success: false, error: 'Could not get file path from Eagle' };
-			}
 
 			let fileBuffer: Buffer;
 			try {
 				fileBuffer = await fs.readFile(filePath);
 			} catch (fsError) {
-				return { 
-					success: false, 
-					error: `Could not read file: ${filePath}` 
-				};
+				return { success: false, error: new FileUnreadableError(filePath) };
 			}
 
 			const mimeType = getMimeType(item.ext);
@@ -313,7 +347,7 @@ export class EagleApiService {
 
 			if (!response.ok) {
 				const errorText = await response.text();
-				return { success: false, error: `Upload failed (${response.status}): ${errorText}` };
+				return { success: false, error: cloudErrorFromStatus('Cloudflare R2', response.status, errorText) };
 			}
 
 			const result = await response.json() as { success: boolean; key: string; filename: string };
@@ -334,10 +368,7 @@ export class EagleApiService {
 				filename: result.filename,
 			};
 		} catch (error) {
-			return { 
-				success: false, 
-				error: error instanceof Error ? error.message : 'Unknown error' 
-			};
+			return { success: false, error: toCloudError('Cloudflare R2', error) };
 		}
 	}
 
@@ -353,30 +384,106 @@ export class EagleApiService {
 		return `${this.baseUrl}/api/item/thumbnail?id=${id}`;
 	}
 
-	private async get<T>(endpoint: string): Promise<EagleApiResponse<T>> {
-		const response: RequestUrlResponse = await requestUrl({
-			url: `${this.baseUrl}${endpoint}`,
-			method: 'GET',
-			headers: {
-				'Content-Type': 'application/json',
-			},
-		});
-		return response.json as EagleApiResponse<T>;
+	/** Retries share one connection timeout, so a hung Eagle costs at most that long in total. */
+	private async get<T>(endpoint: string, retry = true): Promise<EagleApiResponse<T>> {
+		const deadline = Date.now() + this.timeout;
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await this.request<T>('GET', endpoint, undefined, deadline - Date.now());
+			} catch (error) {
+				const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+				if (!retry || attempt >= GET_RETRY_ATTEMPTS || !isRetryableError(error) || Date.now() + delay >= deadline) {
+					throw error;
+				}
+				console.log(`[CMDS Eagle] ${getErrorMessage(error)}, retrying in ${delay} ms`);
+				await new Promise(resolve => setTimeout(resolve, delay));
+			}
+		}
 	}
 
 	private async post<T>(endpoint: string, body: unknown): Promise<EagleApiResponse<T>> {
-		const response: RequestUrlResponse = await requestUrl({
-			url: `${this.baseUrl}${endpoint}`,
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-			},
-			body: JSON.stringify(body),
+		return this.request<T>('POST', endpoint, JSON.stringify(body));
+	}
+
+	private async request<T>(method: 'GET' | 'POST', endpoint: string, body?: string, timeout = this.timeout): Promise<EagleApiResponse<T>> {
+		let response: RequestUrlResponse;
+		try {
+			response = await this.withTimeout(
+				requestUrl({
+					url: `${this.baseUrl}${endpoint}`,
+					method,
+					headers: {
+						'Content-Type': 'application/json',
+					},
+					body,
+					throw: false,
+				}),
+				endpoint,
+				timeout
+			);
+		} catch (error) {
+			if (error instanceof EagleTimeoutError) {
+				throw error;
+			}
+			if (/ERR_CONNECTION_REFUSED|ECONNREFUSED/i.test(getErrorMessage(error))) {
+				throw new EagleNotRunningError(this.baseUrl);
+			}
+			throw new EagleApiError(`Request to Eagle failed: ${getErrorMessage(error)}`, endpoint);
+		}
+
+		if (response.status >= 400) {
+			throw new EagleHttpError(endpoint, response.status);
+		}
+
+		let json: unknown;
+		try {
+			json = response.json;
+		} catch {
+			throw new EagleMalformedResponseError(endpoint);
+		}
+		if (!json || typeof json !== 'object') {
+			throw new EagleMalformedResponseError(endpoint);
+		}
+		return json as EagleApiResponse<T>;
+	}
+
+	private unwrap<T>(response: EagleApiResponse<T>, endpoint: string): T {
+		if (response.status !== 'success' || response.data === undefined) {
+			throw new EagleApiError(`Eagle reported an error for ${endpoint}${response.message ? `: ${response.message}` : ''}`, endpoint);
+		}
+		return response.data;
+	}
+
+	// requestUrl cannot be aborted, so a timed-out request keeps running in the background; only the caller stops waiting
+	private withTimeout<T>(promise: Promise<T>, endpoint: string, timeout: number): Promise<T> {
+		return new Promise((resolve, reject) => {
+			const timer = setTimeout(() => reject(new EagleTimeoutError(endpoint, this.timeout)), timeout);
+			promise.then(
+				(value) => {
+					clearTimeout(timer);
+					resolve(value);
+				},
+				(error) => {
+					clearTimeout(timer);
+					reject(error);
+				}
+			);
 		});
-		return response.json as EagleApiResponse<T>;
 	}
 }
 
+/**
+ * Eagle answers a missing item with an error status rather than HTTP 404, so only a not-found message
+ * (or, for reads, an empty answer) becomes ItemNotFoundError. Anything else keeps Eagle's message.
+ */
+function itemError(id: string, endpoint: string, response: EagleApiResponse<unknown>, isRead: boolean): CMDSEagleError {
+	const message = response.message;
+	if (message ? /not (be )?found|does ?n[o']?t exist|no such item/i.test(message) : isRead) {
+		return new ItemNotFoundError(id);
+	}
+	return new EagleApiError(`Eagle could not handle ${endpoint} for ${id}${message ? `: ${message}` : ''}`, endpoint);
+}
+
 export function buildEagleItemUrl(itemId: string): string {
 	return `eagle://item/${itemId}`;
 }
@@ -415,6 +522,17 @@ export function buildEagleLocalhostThumbnailUrl(baseUrl: string, id: string): st
 	return `${baseUrl}/api/item/thumbnail?id=${id}`;
 }
 
+export function flattenFolderPaths(folders: EagleFolder[], parentPath = '', paths = new Map<string, string>()): Map<string, string> {
+	for (const folder of folders) {
+		const path = parentPath ? `${parentPath}/${folder.name}` : folder.name;
+		paths.set(folder.id, path);
+		if (folder.children && folder.children.length > 0) {
+			flattenFolderPaths(folder.children, path, paths);
+		}
+	}
+	return paths;
+}
+
 export function getR2KeyFromItem(item: EagleItem): string | null {
 	const r2Tag = item.tags.find(t => t.startsWith('r2:'));
 	if (r2Tag) {
@@ -441,6 +559,14 @@ const MIME_TYPES: Record<string, string> = {
 	'heic': 'image/heic',
 	'heif': 'image/heif',
 	'avif': 'image/avif',
+	'pdf': 'application/pdf',
+	'mp4': 'video/mp4',
+	'mov': 'video/quicktime',
+	'webm': 'video/webm',
+	'avi': 'video/x-msvideo',
+	'mkv': 'video/x-matroska',
+	'psd': 'image/vnd.adobe.photoshop',
+	'ai': 'application/postscript',
 };
 
 function getMimeType(ext: string): string {
@@ -8,6 +8,12 @@ import {
 	CustomProviderConfig,
 	AnyCloudProviderConfig,
 } from './types';
+import {
+	CloudProviderError,
+	FileUnreadableError,
+	cloudErrorFromStatus,
+	toCloudError,
+} from './errors';
 
 export interface CloudProvider {
 	upload(filePath: string, filename: string, mimeType: string): Promise<CloudUploadResult>;
@@ -15,6 +21,14 @@ export interface CloudProvider {
 	getPublicUrl(key: string): string;
 }
 
+async function readUploadFile(filePath: string): Promise<Buffer> {
+	try {
+		return await fs.readFile(filePath);
+	} catch {
+		throw new FileUnreadableError(filePath);
+	}
+}
+
 function getMimeType(ext: string): string {
 	const MIME_TYPES: Record<string, string> = {
 		'jpg': 'image/jpeg',
@@ -31,6 +45,13 @@ function getMimeType(ext: string): string {
 		'heif': 'image/heif',
 		'avif': 'image/avif',
 		'pdf': 'application/pdf',
+		'mp4': 'video/mp4',
+		'mov': 'video/quicktime',
+		'webm': 'video/webm',
+		'avi': 'video/x-msvideo',
+		'mkv': 'video/x-matroska',
+		'psd': 'image/vnd.adobe.photoshop',
+		'ai': 'application/postscript',
 	};
 	return MIME_TYPES[ext.toLowerCase()] || 'application/octet-stream';
 }
@@ -40,11 +61,11 @@ export class R2Provider implements CloudProvider {
 
 	async upload(filePath: string, filename: string, mimeType: string): Promise<CloudUploadResult> {
 		if (!this.config.workerUrl || !this.config.apiKey) {
-			return { success: false, error: 'R2 not configured' };
+			return { success: false, error: new CloudProviderError(this.config.name, `${this.config.name} is not configured. Add the Worker URL and API key in settings.`) };
 		}
 
 		try {
-			const fileBuffer = await fs.readFile(filePath);
+			const fileBuffer = await readUploadFile(filePath);
 			const blob = new Blob([fileBuffer], { type: mimeType });
 
 			const formData = new FormData();
@@ -62,7 +83,7 @@ export class R2Provider implements CloudProvider {
 
 			if (!response.ok) {
 				const errorText = await response.text();
-				return { success: false, error: `Upload failed (${response.status}): ${errorText}` };
+				return { success: false, error: cloudErrorFromStatus(this.config.name, response.status, errorText) };
 			}
 
 			const result = await response.json() as { success: boolean; key: string; filename: string };
@@ -73,10 +94,7 @@ export class R2Provider implements CloudProvider {
 				publicUrl: this.getPublicUrl(result.key),
 			};
 		} catch (error) {
-			return { 
-				success: false, 
-				error: error instanceof Error ? error.message : 'Unknown error' 
-			};
+			return { success: false, error: toCloudError(this.config.name, error) };
 		}
 	}
 
@@ -107,11 +125,11 @@ export class S3Provider implements CloudProvider {
 
 	async upload(filePath: string, filename: string, mimeType: string): Promise<CloudUploadResult> {
 		if (!this.config.endpoint || !this.config.accessKeyId || !this.config.secretAccessKey) {
-			return { success: false, error: 'S3 not configured' };
+			return { success: false, error: new CloudProviderError(this.config.name, `${this.config.name} is not configured. Add the endpoint and access keys in settings.`) };
 		}
 
 		try {
-			const fileBuffer = await fs.readFile(filePath);
+			const fileBuffer = await readUploadFile(filePath);
 			const key = `eagle/${Date.now()}-${filename}`;
 			
 			const date = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
@@ -172,7 +190,7 @@ export class S3Provider implements CloudProvider {
 
 			if (!response.ok) {
 				const errorText = await response.text();
-				return { success: false, error: `S3 upload failed (${response.status}): ${errorText}` };
+				return { success: false, error: cloudErrorFromStatus(this.config.name, response.status, errorText) };
 			}
 
 			return {
@@ -182,10 +200,7 @@ export class S3Provider implements CloudProvider {
 				publicUrl: this.getPublicUrl(key),
 			};
 		} catch (error) {
-			return { 
-				success: false, 
-				error: error instanceof Error ? error.message : 'Unknown error' 
-			};
+			return { success: false, error: toCloudError(this.config.name, error) };
 		}
 	}
 
@@ -253,11 +268,11 @@ export class WebDAVProvider implements CloudProvider {
 
 	async upload(filePath: string, filename: string, mimeType: string): Promise<CloudUploadResult> {
 		if (!this.config.serverUrl || !this.config.username) {
-			return { success: false, error: 'WebDAV not configured' };
+			return { success: false, error: new CloudProviderError(this.config.name, `${this.config.name} is not configured. Add the server URL and username in settings.`) };
 		}
 
 		try {
-			const fileBuffer = await fs.readFile(filePath);
+			const fileBuffer = await readUploadFile(filePath);
 			const key = `${this.config.uploadPath}/${Date.now()}-${filename}`;
 			const uploadUrl = `${this.config.serverUrl}${key}`;
 
@@ -273,7 +288,7 @@ export class WebDAVProvider implements CloudProvider {
 			});
 
 			if (!response.ok && response.status !== 201 && response.status !== 204) {
-				return { success: false, error: `WebDAV upload failed (${response.status})` };
+				return { success: false, error: cloudErrorFromStatus(this.config.name, response.status, '') };
 			}
 
 			return {
@@ -283,10 +298,7 @@ export class WebDAVProvider implements CloudProvider {
 				publicUrl: this.getPublicUrl(key),
 			};
 		} catch (error) {
-			return { 
-				success: false, 
-				error: error instanceof Error ? error.message : 'Unknown error' 
-			};
+			return { success: false, error: toCloudError(this.config.name, error) };
 		}
 	}
 
@@ -324,11 +336,11 @@ export class ImgHippoProvider implements CloudProvider {
 
 	async upload(filePath: string, filename: string, mimeType: string): Promise<CloudUploadResult> {
 		if (!this.config.apiKey) {
-			return { success: false, error: 'ImgHippo API key not configured' };
+			return { success: false, error: new CloudProviderError(this.config.name, `${this.config.name} API key is not configured. Add it in settings.`) };
 		}
 
 		try {
-			const fileBuffer = await fs.readFile(filePath);
+			const fileBuffer = await readUploadFile(filePath);
 			const blob = new Blob([fileBuffer], { type: mimeType });
 
 			const formData = new FormData();
@@ -343,7 +355,7 @@ export class ImgHippoProvider implements CloudProvider {
 
 			if (!response.ok) {
 				const errorText = await response.text();
-				return { success: false, error: `ImgHippo upload failed (${response.status}): ${errorText}` };
+				return { success: false, error: cloudErrorFromStatus(this.config.name, response.status, errorText) };
 			}
 
 			const result = await response.json() as {
@@ -380,14 +392,14 @@ export class ImgHippoProvider implements CloudProvider {
 			};
 
 			if (!result.success || !result.data) {
-				return { success: false, error: result.message || 'Upload failed' };
+				return { success: false, error: cloudErrorFromStatus(this.config.name, result.status, result.message || '') };
 			}
 
 			const publicUrl = result.data.url || result.data.display_url || result.data.image?.url;
 			const resultFilename = result.data.image?.filename || result.data.title || filename;
 
 			if (!publicUrl) {
-				return { success: false, error: 'No URL returned from ImgHippo' };
+				return { success: false, error: new CloudProviderError(this.config.name, `${this.config.name} did not return a URL for the upload`) };
 			}
 
 			return {
@@ -397,10 +409,7 @@ export class ImgHippoProvider implements CloudProvider {
 				publicUrl: publicUrl,
 			};
 		} catch (error) {
-			return { 
-				success: false, 
-				error: error instanceof Error ? error.message : 'Unknown error' 
-			};
+			return { success: false, error: toCloudError(this.config.name, error) };
 		}
 	}
 
@@ -418,11 +427,11 @@ export class CustomProvider implements CloudProvider {
 
 	async upload(filePath: string, filename: string, mimeType: string): Promise<CloudUploadResult> {
 		if (!this.config.uploadUrl) {
-			return { success: false, error: 'Custom provider not configured' };
+			return { success: false, error: new CloudProviderError(this.config.name, `${this.config.name} is not configured. Add the upload URL in settings.`) };
 		}
 
 		try {
-			const fileBuffer = await fs.readFile(filePath);
+			const fileBuffer = await readUploadFile(filePath);
 			const blob = new Blob([fileBuffer], { type: mimeType });
 
 			const formData = new FormData();
@@ -437,7 +446,7 @@ export class CustomProvider implements CloudProvider {
 
 			if (!response.ok) {
 				const errorText = await response.text();
-				return { success: false, error: `Upload failed (${response.status}): ${errorText}` };
+				return { success: false, error: cloudErrorFromStatus(this.config.name, response.status, errorText) };
 			}
 
 			const result = await response.json() as { key?: string; url?: string; filename?: string };
@@ -450,10 +459,7 @@ export class CustomProvider implements CloudProvider {
 				publicUrl: this.getPublicUrl(key),
 			};
 		} catch (error) {
-			return { 
-				success: false, 
-				error: error instanceof Error ? error.message : 'Unknown error' 
-			};
+			return { success: false, error: toCloudError(this.config.name, error) };
 		}
 	}
 
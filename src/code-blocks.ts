@@ -0,0 +1,360 @@
+import { MarkdownRenderChild, setIcon } from 'obsidian';
+import { EagleLightboxModal } from './modals';
+import CMDSPACELinkEagle from './main';
+import { buildEagleItemUrl, flattenFolderPaths, parseEagleUrl } from './api';
+import { CMDSEagleError, getErrorMessage } from './errors';
+import { parseQuery, matchesQuery, matchesSmartFolder, sortItems, toListItemsOptions, ParsedQuery } from './query';
+import { isInternalTag } from './tag-sync';
+import { EagleItem } from './types';
+
+const DEFAULT_QUERY_LIMIT = 12;
+const DEFAULT_GALLERY_LIMIT = 30;
+const DEFAULT_GALLERY_COLUMNS = 3;
+
+interface EagleBlockOptions {
+	ids: string[];
+	query: string | null;
+	limit: number;
+}
+
+interface ResolvedItem {
+	item: EagleItem;
+	cached: boolean;
+}
+
+interface GalleryBlockOptions {
+	folderId: string | null;
+	tags: string[];
+	smartFolderId: string | null;
+	sort: ParsedQuery;
+	limit: number;
+	columns: number;
+	captions: boolean;
+}
+
+export function parseGalleryBlock(source: string): GalleryBlockOptions {
+	const options: GalleryBlockOptions = {
+		folderId: null,
+		tags: [],
+		smartFolderId: null,
+		sort: parseQuery(''),
+		limit: DEFAULT_GALLERY_LIMIT,
+		columns: DEFAULT_GALLERY_COLUMNS,
+		captions: true,
+	};
+
+	for (const rawLine of source.split('\n')) {
+		const match = rawLine.trim().match(/^([a-z-]+):\s*(.*)$/i);
+		if (!match) continue;
+
+		const value = match[2].trim();
+		switch (match[1].toLowerCase()) {
+			case 'folder': {
+				const parsed = parseEagleUrl(value);
+				options.folderId = parsed && parsed.type === 'folder' ? parsed.id : value;
+				break;
+			}
+			case 'tag':
+			case 'tags':
+				options.tags = value.split(',').map(tag => tag.trim()).filter(Boolean);
+				break;
+			case 'smart':
+			case 'smart-folder':
+				options.smartFolderId = value;
+				break;
+			case 'sort':
+				options.sort = parseQuery(`sort:${value}`);
+				break;
+			case 'limit': {
+				const limit = parseInt(value, 10);
+				if (!isNaN(limit) && limit > 0) options.limit = limit;
+				break;
+			}
+			case 'columns': {
+				const columns = parseInt(value, 10);
+				if (!isNaN(columns) && columns > 0) options.columns = Math.min(columns, 8);
+				break;
+			}
+			case 'captions':
+				options.captions = !/^(false|no|off)$/i.test(value);
+				break;
+		}
+	}
+
+	return options;
+}
+
+export function parseEagleBlock(source: string): EagleBlockOptions {
+	const options: EagleBlockOptions = { ids: [], query: null, limit: DEFAULT_QUERY_LIMIT };
+
+	for (const rawLine of source.split('\n')) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith('#')) continue;
+
+		const option = line.match(/^(query|limit):\s*(.*)$/i);
+		if (option) {
+			if (option[1].toLowerCase() === 'query') {
+				options.query = option[2].trim();
+			} else {
+				const limit = parseInt(option[2], 10);
+				if (!isNaN(limit) && limit > 0) options.limit = limit;
+			}
+			continue;
+		}
+
+		line.split(/[\s,]+/).forEach(token => {
+			const match = token.match(/^(?:eagle:\/\/item\/)?([A-Z0-9]+)$/i);
+			if (match) options.ids.push(match[1]);
+		});
+	}
+
+	return options;
+}
+
+export class EagleBlockRenderer extends MarkdownRenderChild {
+	private plugin: CMDSPACELinkEagle;
+	private source: string;
+
+	constructor(containerEl: HTMLElement, plugin: CMDSPACELinkEagle, source: string) {
+		super(containerEl);
+		this.plugin = plugin;
+		this.source = source;
+	}
+
+	onload(): void {
+		const options = parseEagleBlock(this.source);
+		if (options.query !== null) {
+			this.registerEvent(this.plugin.itemIndex.on('changed', () => void this.render()));
+		}
+		void this.render();
+	}
+
+	private async render(): Promise<void> {
+		const options = parseEagleBlock(this.source);
+		const el = this.containerEl;
+		el.empty();
+		el.addClass('cmdspace-eagle-block');
+
+		if (options.ids.length === 0 && options.query === null) {
+			this.renderMessage('Add an Eagle item id, one id per line, or a "query:" line.');
+			return;
+		}
+
+		let resolved: ResolvedItem[];
+		try {
+			resolved = options.query !== null
+				? await this.resolveQuery(options.query, options.limit)
+				: await this.resolveIds(options.ids);
+		} catch (error) {
+			this.renderMessage(getErrorMessage(error));
+			return;
+		}
+
+		if (resolved.length === 0) {
+			this.renderMessage('No matching Eagle items');
+			return;
+		}
+
+		const listEl = el.createDiv({ cls: 'cmdspace-eagle-block-items' });
+		resolved.forEach(entry => this.renderItem(listEl, entry));
+	}
+
+	private async resolveIds(ids: string[]): Promise<ResolvedItem[]> {
+		const resolved: ResolvedItem[] = [];
+		for (const id of ids) {
+			try {
+				const item = await this.plugin.api.getItemInfo(id);
+				this.plugin.itemIndex.upsert(item);
+				resolved.push({ item, cached: false });
+			} catch (error) {
+				const indexed = this.plugin.itemIndex.getItem(id);
+				if (indexed && error instanceof CMDSEagleError) {
+					resolved.push({ item: indexed, cached: true });
+				} else {
+					this.renderMessage(`${id}: ${getErrorMessage(error)}`);
+				}
+			}
+		}
+		return resolved;
+	}
+
+	private async resolveQuery(query: string, limit: number): Promise<ResolvedItem[]> {
+		if (!this.plugin.itemIndex.isLoaded()) {
+			await this.plugin.itemIndex.load();
+		}
+
+		const parsed = parseQuery(query);
+		let folderPaths = new Map<string, string>();
+		if (parsed.filters.some(filter => filter.field === 'folder')) {
+			try {
+				folderPaths = flattenFolderPaths(await this.plugin.api.listFolders());
+			} catch (error) {
+				console.log('[CMDS Eagle] Folder filter unavailable while Eagle is offline:', getErrorMessage(error));
+			}
+		}
+
+		const text = parsed.text.toLowerCase();
+		const items = this.plugin.itemIndex.getItems().filter(item =>
+			matchesQuery(item, parsed, folderPaths) &&
+			(!text || item.name.toLowerCase().includes(text) || item.tags.some(tag => tag.toLowerCase().includes(text)))
+		);
+		const sorted = parsed.sort ? sortItems(items, parsed) : items.sort((a, b) => b.modificationTime - a.modificationTime);
+		return sorted.slice(0, limit).map(item => ({ item, cached: false }));
+	}
+
+	private renderItem(container: HTMLElement, { item, cached }: ResolvedItem): void {
+		const card = container.createDiv({ cls: 'cmdspace-eagle-block-item' });
+
+		const imageEl = card.createDiv({ cls: 'cmdspace-eagle-block-image' });
+		this.plugin.thumbnailCache.loadInto(imageEl, item.id, item.name);
+
+		const body = card.createDiv({ cls: 'cmdspace-eagle-block-body' });
+		const header = body.createDiv({ cls: 'cmdspace-eagle-block-header' });
+		header.createSpan({ cls: 'cmdspace-eagle-block-name', text: item.name });
+		if (cached) {
+			header.createSpan({
+				cls: 'cmdspace-eagle-block-badge',
+				text: 'cached',
+				attr: { 'aria-label': 'Eagle is not running; showing the last indexed data' },
+			});
+		}
+
+		const meta = body.createDiv({ cls: 'cmdspace-eagle-block-meta' });
+		const dimensions = item.width && item.height ? ` • ${item.width}×${item.height}` : '';
+		meta.setText(`${item.ext.toUpperCase()}${dimensions}`);
+		if (item.star) {
+			const star = Math.max(0, Math.min(5, item.star));
+			meta.createSpan({ cls: 'cmdspace-eagle-rating', text: ` ${'★'.repeat(star)}${'☆'.repeat(5 - star)}` });
+		}
+
+		const tags = item.tags.filter(tag => !isInternalTag(tag));
+		if (tags.length > 0) {
+			const tagsEl = body.createDiv({ cls: 'cmdspace-eagle-suggestion-tags' });
+			tags.forEach(tag => tagsEl.createSpan({ cls: 'cmdspace-eagle-tag', text: tag }));
+		}
+
+		if (item.annotation) {
+			body.createDiv({ cls: 'cmdspace-eagle-block-annotation', text: item.annotation });
+		}
+
+		const openBtn = body.createEl('button', { cls: 'cmdspace-eagle-block-open' });
+		setIcon(openBtn.createSpan(), 'external-link');
+		openBtn.createSpan({ text: 'Open in Eagle' });
+		openBtn.addEventListener('click', (e) => {
+			e.preventDefault();
+			window.open(buildEagleItemUrl(item.id));
+		});
+	}
+
+	private renderMessage(message: string): void {
+		this.containerEl.createDiv({ cls: 'cmdspace-eagle-block-message', text: message });
+	}
+}
+
+export class EagleGalleryRenderer extends MarkdownRenderChild {
+	private plugin: CMDSPACELinkEagle;
+	private source: string;
+
+	constructor(containerEl: HTMLElement, plugin: CMDSPACELinkEagle, source: string) {
+		super(containerEl);
+		this.plugin = plugin;
+		this.source = source;
+	}
+
+	onload(): void {
+		void this.render();
+	}
+
+	private async render(): Promise<void> {
+		const options = parseGalleryBlock(this.source);
+		const el = this.containerEl;
+		el.empty();
+		el.addClass('cmdspace-eagle-gallery-block');
+
+		if (!options.folderId && options.tags.length === 0 && !options.smartFolderId) {
+			el.createDiv({ cls: 'cmdspace-eagle-block-message', text: 'Add a "folder:", "tags:" or "smart:" line to choose the gallery items.' });
+			return;
+		}
+
+		let items: EagleItem[];
+		let cached = false;
+		try {
+			items = await this.loadItems(options);
+		} catch (error) {
+			if (!(error instanceof CMDSEagleError)) {
+				el.createDiv({ cls: 'cmdspace-eagle-block-message', text: getErrorMessage(error) });
+				return;
+			}
+			items = this.loadIndexedItems(options);
+			cached = true;
+		}
+
+		if (items.length === 0) {
+			el.createDiv({ cls: 'cmdspace-eagle-block-message', text: cached ? 'Eagle is not running and no cached items match.' : 'No matching Eagle items' });
+			return;
+		}
+
+		if (cached) {
+			el.createDiv({ cls: 'cmdspace-eagle-block-message', text: 'Eagle is not running; showing cached items.' });
+		}
+
+		const grid = el.createDiv({ cls: 'cmdspace-eagle-gallery' });
+		grid.style.setProperty('--cmdspace-eagle-gallery-columns', String(options.columns));
+
+		items.forEach((item, index) => {
+			const figure = grid.createEl('figure', { cls: 'cmdspace-eagle-gallery-item' });
+			const imageEl = figure.createDiv({ cls: 'cmdspace-eagle-gallery-image' });
+			if (item.width && item.height) {
+				imageEl.style.aspectRatio = `${item.width} / ${item.height}`;
+			}
+			this.plugin.thumbnailCache.loadInto(imageEl, item.id, item.name);
+			if (options.captions) {
+				figure.createEl('figcaption', { text: item.name });
+			}
+			figure.addEventListener('click', () => {
+				new EagleLightboxModal(this.plugin.app, this.plugin.thumbnailCache, items, index).open();
+			});
+		});
+	}
+
+	private async loadItems(options: GalleryBlockOptions): Promise<EagleItem[]> {
+		if (options.smartFolderId) {
+			const libraryInfo = await this.plugin.api.getLibraryInfo();
+			const smartFolder = (libraryInfo.smartFolders ?? []).find(folder => folder.id === options.smartFolderId);
+			if (!smartFolder) {
+				throw new Error(`Smart folder ${options.smartFolderId} was not found in the current library.`);
+			}
+			if (!this.plugin.itemIndex.isLoaded()) {
+				await this.plugin.itemIndex.load();
+			}
+			const matches = this.plugin.itemIndex.getItems().filter(item => matchesSmartFolder(item, smartFolder));
+			return this.sortAndLimit(matches, options);
+		}
+
+		const { orderBy } = toListItemsOptions(options.sort, new Map());
+		const items = await this.plugin.api.listItems({
+			folders: options.folderId ? [options.folderId] : undefined,
+			tags: options.tags.length > 0 ? options.tags : undefined,
+			orderBy,
+			limit: options.limit,
+		});
+		return items.filter(item => !item.isDeleted).slice(0, options.limit);
+	}
+
+	private loadIndexedItems(options: GalleryBlockOptions): EagleItem[] {
+		if (options.smartFolderId) return [];
+		const tags = options.tags.map(tag => tag.toLowerCase());
+		const matches = this.plugin.itemIndex.getItems().filter(item =>
+			(!options.folderId || item.folders.includes(options.folderId)) &&
+			tags.every(tag => item.tags.some(itemTag => itemTag.toLowerCase() === tag))
+		);
+		return this.sortAndLimit(matches, options);
+	}
+
+	private sortAndLimit(items: EagleItem[], options: GalleryBlockOptions): EagleItem[] {
+		const sorted = options.sort.sort
+			? sortItems(items, options.sort)
+			: items.slice().sort((a, b) => b.modificationTime - a.modificationTime);
+		return sorted.slice(0, options.limit);
+	}
+}
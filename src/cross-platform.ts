@@ -0,0 +1,221 @@
+import { userInfo } from 'os';
+import { CMDSPACEEagleSettings, ComputerProfile, PathRoot, PlatformType } from './types';
+
+export const HOME_ROOT_NAME = 'home';
+
+export const PLATFORM_LABELS: Record<PlatformType, string> = {
+	darwin: 'macOS',
+	win32: 'Windows',
+	linux: 'Linux',
+};
+
+interface RootMatch {
+	computer: ComputerProfile;
+	root: PathRoot;
+}
+
+export function getCurrentPlatform(): PlatformType {
+	return process.platform as PlatformType;
+}
+
+export function detectUsername(vaultPath: string, platform: PlatformType = getCurrentPlatform()): string {
+	const patterns: Record<PlatformType, RegExp> = {
+		darwin: /^\/Users\/([^/]+)/,
+		win32: /^[A-Za-z]:[/\\]Users[/\\]([^/\\]+)/i,
+		linux: /^\/home\/([^/]+)/,
+	};
+	const match = vaultPath.match(patterns[platform]);
+	if (match) return match[1];
+
+	try {
+		return userInfo().username;
+	} catch {
+		return '';
+	}
+}
+
+export function getHomePath(platform: PlatformType, username: string): string {
+	switch (platform) {
+		case 'darwin': return `/Users/${username}`;
+		case 'win32': return `C:/Users/${username}`;
+		case 'linux': return `/home/${username}`;
+	}
+}
+
+export function normalizePath(path: string): string {
+	let normalized = path.replace(/\\/g, '/');
+	if (/^(Users|home|Volumes)\//.test(normalized)) {
+		normalized = '/' + normalized;
+	}
+	return normalized;
+}
+
+export function urlToPath(url: string): string | null {
+	let raw: string;
+	if (url.startsWith('file://')) {
+		raw = url.slice('file://'.length);
+	} else {
+		const appMatch = url.match(/^app:\/\/[^/]+(\/[^?]+)/);
+		if (!appMatch) return null;
+		raw = appMatch[1];
+	}
+
+	let decoded = raw;
+	try {
+		while (decoded.includes('%')) {
+			const next = decodeURIComponent(decoded);
+			if (next === decoded) break;
+			decoded = next;
+		}
+	} catch {
+		decoded = raw;
+	}
+	return normalizePath(/^\/[A-Za-z]:/.test(decoded) ? decoded.slice(1) : decoded);
+}
+
+export function normalizeLibraryPath(libraryPath: string): string {
+	return normalizePath(libraryPath.trim()).replace(/\/+$/, '');
+}
+
+export function getLibraryName(libraryPath: string): string {
+	return normalizeLibraryPath(libraryPath).split('/').pop() || '';
+}
+
+export function getProfileRoots(computer: ComputerProfile): PathRoot[] {
+	const roots = (computer.roots ?? [])
+		.filter(root => root.name.trim() && root.path.trim())
+		.map(root => ({ name: root.name.trim(), path: normalizePath(root.path.trim()).replace(/\/+$/, '') }));
+
+	if (computer.username && !roots.some(root => root.name.toLowerCase() === HOME_ROOT_NAME)) {
+		const home = getHomePath(computer.platform, computer.username);
+		const subPath = (computer.subPath || '').replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+		roots.push({ name: HOME_ROOT_NAME, path: subPath ? `${home}/${subPath}` : home });
+	}
+	return roots;
+}
+
+export class CrossPlatformPaths {
+	private settings: CMDSPACEEagleSettings;
+	private username: string;
+
+	constructor(settings: CMDSPACEEagleSettings, vaultPath: string) {
+		this.settings = settings;
+		this.username = detectUsername(vaultPath);
+	}
+
+	updateSettings(settings: CMDSPACEEagleSettings): void {
+		this.settings = settings;
+	}
+
+	getCurrentUsername(): string {
+		return this.username;
+	}
+
+	getCurrentComputer(): ComputerProfile | null {
+		const platform = getCurrentPlatform();
+		return this.settings.computers.find(c => c.platform === platform && c.username === this.username) ?? null;
+	}
+
+	isFromOtherComputer(path: string): boolean {
+		if (!this.settings.enableCrossPlatform) return false;
+		const normalized = normalizePath(path);
+		if (this.convertLibraryPath(normalized) !== null) return true;
+
+		const match = this.findRoot(normalized);
+		const current = this.getCurrentComputer();
+		return !!match && (!current || match.computer.id !== current.id);
+	}
+
+	convert(path: string): string {
+		if (!this.settings.enableCrossPlatform || this.settings.computers.length === 0) {
+			return path;
+		}
+
+		const current = this.getCurrentComputer();
+		if (!current) return path;
+
+		const normalized = normalizePath(path);
+		const libraryPath = this.convertLibraryPath(normalized);
+		if (libraryPath !== null) return libraryPath;
+
+		const match = this.findRoot(normalized);
+		if (!match || match.computer.id === current.id) return path;
+
+		const target = getProfileRoots(current).find(root => root.name.toLowerCase() === match.root.name.toLowerCase());
+		if (!target) {
+			console.log(`[CMDS Eagle] ${current.name} has no "${match.root.name}" root to map ${match.root.path} to`);
+			return path;
+		}
+
+		console.log(`[CMDS Eagle] Converting: ${match.root.path} → ${target.path}`);
+		return target.path + normalized.slice(match.root.path.length);
+	}
+
+	toFileUrl(path: string): string {
+		let decodedPath = path;
+		try {
+			while (decodedPath.includes('%')) {
+				const decoded = decodeURIComponent(decodedPath);
+				if (decoded === decodedPath) break;
+				decodedPath = decoded;
+			}
+		} catch {
+			decodedPath = path;
+		}
+
+		const normalizedPath = this.convert(decodedPath).replace(/\\/g, '/');
+		const encodedPath = normalizedPath.split('/').map(segment => encodeURIComponent(segment)).join('/');
+
+		if (/^[A-Za-z]:/.test(normalizedPath)) {
+			// Restore the drive letter colon that encodeURIComponent turned into %3A
+			return `file:///${encodedPath.replace(/^([A-Za-z])%3A/, '$1:')}`;
+		}
+		return `file://${encodedPath}`;
+	}
+
+	/**
+	 * Rewrites a path inside another computer's Eagle library to this computer's
+	 * library. Library paths are matched against the registered profiles first and
+	 * then by the `.library` folder name, so differing sync folder layouts still map.
+	 */
+	private convertLibraryPath(path: string): string | null {
+		const current = this.getCurrentComputer();
+		if (!current?.eagleLibraryPath) return null;
+
+		const currentLibrary = normalizeLibraryPath(current.eagleLibraryPath);
+		const comparable = path.toLowerCase();
+		if (comparable.startsWith(currentLibrary.toLowerCase() + '/')) return null;
+
+		for (const computer of this.settings.computers) {
+			if (computer.id === current.id || !computer.eagleLibraryPath) continue;
+			const library = normalizeLibraryPath(computer.eagleLibraryPath);
+			if (comparable.startsWith(library.toLowerCase() + '/')) {
+				return currentLibrary + path.slice(library.length);
+			}
+		}
+
+		const match = path.match(/^.*\/([^/]+\.library)(\/.*)$/i);
+		if (!match || match[1].toLowerCase() !== getLibraryName(currentLibrary).toLowerCase()) return null;
+		return currentLibrary + match[2];
+	}
+
+	private findRoot(path: string): RootMatch | null {
+		const currentId = this.getCurrentComputer()?.id;
+		let best: RootMatch | null = null;
+		for (const computer of this.settings.computers) {
+			const caseInsensitive = computer.platform !== 'linux';
+			const comparable = caseInsensitive ? path.toLowerCase() : path;
+
+			for (const root of getProfileRoots(computer)) {
+				const prefix = caseInsensitive ? root.path.toLowerCase() : root.path;
+				if (comparable !== prefix && !comparable.startsWith(prefix + '/')) continue;
+				const longer = !best || root.path.length > best.root.path.length;
+				const preferCurrent = !!best && root.path.length === best.root.path.length && computer.id === currentId;
+				if (longer || preferCurrent) {
+					best = { computer, root };
+				}
+			}
+		}
+		return best;
+	}
+}
@@ -0,0 +1,298 @@
+import { ItemView, WorkspaceLeaf, EventRef, setIcon } from 'obsidian';
+import CMDSPACELinkEagle from './main';
+import { buildEagleItemUrl } from './api';
+import { getErrorMessage } from './errors';
+import { EagleItem, EagleFolder, EagleSmartFolder, EagleTagGroup } from './types';
+import { matchesSmartFolder } from './query';
+
+export const EAGLE_BROWSER_VIEW_TYPE = 'cmdspace-eagle-browser';
+export const EAGLE_ITEM_DRAG_TYPE = 'application/x-cmdspace-eagle-item';
+
+const GRID_PAGE_SIZE = 100;
+
+type BrowserSelection =
+	| { type: 'all' }
+	| { type: 'folder'; folder: EagleFolder }
+	| { type: 'smart'; smartFolder: EagleSmartFolder }
+	| { type: 'tag'; tag: string };
+
+export class EagleBrowserView extends ItemView {
+	private plugin: CMDSPACELinkEagle;
+	private folders: EagleFolder[] = [];
+	private smartFolders: EagleSmartFolder[] = [];
+	private tagGroups: EagleTagGroup[] = [];
+	private selection: BrowserSelection = { type: 'all' };
+	private expandedFolders = new Set<string>();
+	private visibleCount = GRID_PAGE_SIZE;
+	private indexChangedRef: EventRef | null = null;
+	private thumbnailObserver: IntersectionObserver | null = null;
+	private treeEl: HTMLElement;
+	private gridHeaderEl: HTMLElement;
+	private gridEl: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf, plugin: CMDSPACELinkEagle) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return EAGLE_BROWSER_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Eagle';
+	}
+
+	getIcon(): string {
+		return 'image';
+	}
+
+	async onOpen(): Promise<void> {
+		this.contentEl.empty();
+		this.contentEl.addClass('cmdspace-eagle-browser');
+
+		this.addAction('refresh-cw', 'Reload folders', () => {
+			void this.loadLibrary();
+		});
+
+		this.treeEl = this.contentEl.createDiv({ cls: 'cmdspace-eagle-browser-tree' });
+		this.gridHeaderEl = this.contentEl.createDiv({ cls: 'cmdspace-eagle-browser-grid-header' });
+		this.gridEl = this.contentEl.createDiv({ cls: 'cmdspace-eagle-browser-grid' });
+
+		this.thumbnailObserver = new IntersectionObserver((entries) => {
+			entries.forEach(entry => {
+				if (!entry.isIntersecting) return;
+				const tile = entry.target as HTMLElement;
+				this.thumbnailObserver?.unobserve(tile);
+				this.loadThumbnail(tile);
+			});
+		}, { root: this.gridEl, rootMargin: '200px' });
+
+		this.indexChangedRef = this.plugin.itemIndex.on('changed', () => this.renderGrid());
+
+		this.renderTree();
+		this.renderGrid();
+		await this.loadLibrary();
+	}
+
+	async onClose(): Promise<void> {
+		if (this.indexChangedRef) {
+			this.plugin.itemIndex.offref(this.indexChangedRef);
+			this.indexChangedRef = null;
+		}
+		this.thumbnailObserver?.disconnect();
+		this.thumbnailObserver = null;
+	}
+
+	private async loadLibrary(): Promise<void> {
+		try {
+			const [folders, libraryInfo] = await Promise.all([
+				this.plugin.api.listFolders(),
+				this.plugin.api.getLibraryInfo(),
+			]);
+			this.folders = folders;
+			this.smartFolders = libraryInfo.smartFolders ?? [];
+			this.tagGroups = libraryInfo.tagsGroups ?? [];
+			this.renderTree();
+		} catch (error) {
+			this.renderTree(getErrorMessage(error));
+		}
+
+		if (!this.plugin.itemIndex.isLoaded()) {
+			await this.plugin.itemIndex.load();
+		}
+		if (this.plugin.itemIndex.isStale()) {
+			void this.plugin.itemIndex.refresh();
+		}
+	}
+
+	private renderTree(errorMessage?: string): void {
+		this.treeEl.empty();
+
+		this.renderTreeRow(this.treeEl, 'All items', 'layers', { type: 'all' }, 0);
+
+		if (errorMessage) {
+			this.treeEl.createDiv({ cls: 'cmdspace-eagle-browser-error', text: errorMessage });
+		}
+
+		if (this.folders.length > 0) {
+			this.treeEl.createDiv({ cls: 'cmdspace-eagle-browser-section', text: 'Folders' });
+			this.folders.forEach(folder => this.renderFolder(this.treeEl, folder, 0));
+		}
+
+		if (this.smartFolders.length > 0) {
+			this.treeEl.createDiv({ cls: 'cmdspace-eagle-browser-section', text: 'Smart folders' });
+			this.smartFolders.forEach(smartFolder => {
+				this.renderTreeRow(this.treeEl, smartFolder.name, 'folder-search', { type: 'smart', smartFolder }, 0);
+			});
+		}
+
+		if (this.tagGroups.length > 0) {
+			this.treeEl.createDiv({ cls: 'cmdspace-eagle-browser-section', text: 'Tag groups' });
+			this.tagGroups.forEach(group => {
+				const groupKey = `tag-group:${group.id}`;
+				const row = this.renderTreeRow(this.treeEl, group.name, 'tags', null, 0, group.tags.length > 0 ? groupKey : undefined);
+				if (group.color) {
+					row.style.setProperty('--cmdspace-eagle-group-color', group.color);
+				}
+				if (this.expandedFolders.has(groupKey)) {
+					group.tags.forEach(tag => this.renderTreeRow(this.treeEl, tag, 'tag', { type: 'tag', tag }, 1));
+				}
+			});
+		}
+	}
+
+	private renderFolder(container: HTMLElement, folder: EagleFolder, depth: number): void {
+		const hasChildren = folder.children && folder.children.length > 0;
+		this.renderTreeRow(container, folder.name, 'folder', { type: 'folder', folder }, depth, hasChildren ? folder.id : undefined);
+		if (hasChildren && this.expandedFolders.has(folder.id)) {
+			folder.children.forEach(child => this.renderFolder(container, child, depth + 1));
+		}
+	}
+
+	private renderTreeRow(
+		container: HTMLElement,
+		label: string,
+		icon: string,
+		selection: BrowserSelection | null,
+		depth: number,
+		expandKey?: string
+	): HTMLElement {
+		const row = container.createDiv({ cls: 'cmdspace-eagle-browser-row' });
+		row.style.paddingLeft = `${8 + depth * 14}px`;
+		if (selection && this.isSelected(selection)) {
+			row.addClass('is-active');
+		}
+
+		const toggle = row.createSpan({ cls: 'cmdspace-eagle-browser-toggle' });
+		if (expandKey) {
+			setIcon(toggle, this.expandedFolders.has(expandKey) ? 'chevron-down' : 'chevron-right');
+			toggle.addEventListener('click', (e) => {
+				e.stopPropagation();
+				if (this.expandedFolders.has(expandKey)) {
+					this.expandedFolders.delete(expandKey);
+				} else {
+					this.expandedFolders.add(expandKey);
+				}
+				this.renderTree();
+			});
+		}
+
+		setIcon(row.createSpan({ cls: 'cmdspace-eagle-browser-icon' }), icon);
+		row.createSpan({ cls: 'cmdspace-eagle-browser-label', text: label });
+
+		row.addEventListener('click', () => {
+			if (selection) {
+				this.selection = selection;
+				this.visibleCount = GRID_PAGE_SIZE;
+				this.renderTree();
+				this.renderGrid();
+			} else if (expandKey) {
+				toggle.click();
+			}
+		});
+
+		return row;
+	}
+
+	private isSelected(selection: BrowserSelection): boolean {
+		const current = this.selection;
+		switch (selection.type) {
+			case 'all':
+				return current.type === 'all';
+			case 'folder':
+				return current.type === 'folder' && current.folder.id === selection.folder.id;
+			case 'smart':
+				return current.type === 'smart' && current.smartFolder.id === selection.smartFolder.id;
+			case 'tag':
+				return current.type === 'tag' && current.tag === selection.tag;
+		}
+	}
+
+	private getSelectedItems(): EagleItem[] {
+		const items = this.plugin.itemIndex.getItems();
+		const selection = this.selection;
+		switch (selection.type) {
+			case 'all':
+				return items;
+			case 'folder':
+				return items.filter(item => item.folders.includes(selection.folder.id));
+			case 'smart':
+				return items.filter(item => matchesSmartFolder(item, selection.smartFolder));
+			case 'tag':
+				return items.filter(item => item.tags.includes(selection.tag));
+		}
+	}
+
+	private getSelectionLabel(): string {
+		const selection = this.selection;
+		switch (selection.type) {
+			case 'all': return 'All items';
+			case 'folder': return selection.folder.name;
+			case 'smart': return selection.smartFolder.name;
+			case 'tag': return `#${selection.tag}`;
+		}
+	}
+
+	private renderGrid(): void {
+		this.thumbnailObserver?.disconnect();
+		this.gridEl.empty();
+
+		const items = this.getSelectedItems()
+			.slice()
+			.sort((a, b) => b.modificationTime - a.modificationTime);
+		this.gridHeaderEl.setText(`${this.getSelectionLabel()} (${items.length.toLocaleString()} items)`);
+
+		if (items.length === 0) {
+			const message = this.plugin.itemIndex.size === 0
+				? 'The item index is empty. Start Eagle to build it.'
+				: 'No items';
+			this.gridEl.createDiv({ cls: 'cmdspace-eagle-browser-empty', text: message });
+			return;
+		}
+
+		items.slice(0, this.visibleCount).forEach(item => this.renderTile(item));
+
+		if (items.length > this.visibleCount) {
+			const moreBtn = this.gridEl.createEl('button', {
+				cls: 'cmdspace-eagle-browser-more',
+				text: `Show more (${(items.length - this.visibleCount).toLocaleString()} remaining)`,
+			});
+			moreBtn.addEventListener('click', () => {
+				this.visibleCount += GRID_PAGE_SIZE;
+				this.renderGrid();
+			});
+		}
+	}
+
+	private renderTile(item: EagleItem): void {
+		const tile = this.gridEl.createDiv({ cls: 'cmdspace-eagle-browser-tile' });
+		tile.dataset.itemId = item.id;
+		tile.setAttribute('draggable', 'true');
+		tile.setAttribute('aria-label', `${item.name}.${item.ext}`);
+
+		tile.createDiv({ cls: 'cmdspace-eagle-browser-thumb' });
+		tile.createDiv({ cls: 'cmdspace-eagle-browser-name', text: item.name });
+
+		tile.addEventListener('dragstart', (e) => {
+			if (!e.dataTransfer) return;
+			e.dataTransfer.setData(EAGLE_ITEM_DRAG_TYPE, item.id);
+			e.dataTransfer.setData('text/plain', buildEagleItemUrl(item.id));
+			e.dataTransfer.effectAllowed = 'copy';
+		});
+
+		tile.addEventListener('dblclick', () => {
+			window.open(buildEagleItemUrl(item.id));
+		});
+
+		this.thumbnailObserver?.observe(tile);
+	}
+
+	private loadThumbnail(tile: HTMLElement): void {
+		const itemId = tile.dataset.itemId;
+		const thumbEl = tile.querySelector('.cmdspace-eagle-browser-thumb');
+		if (itemId && thumbEl instanceof HTMLElement) {
+			this.plugin.thumbnailCache.loadInto(thumbEl, itemId);
+		}
+	}
+}
@@ -0,0 +1,176 @@
+import {
+	Editor,
+	EditorPosition,
+	EditorSuggest,
+	EditorSuggestContext,
+	EditorSuggestTriggerInfo,
+	TFile,
+	prepareFuzzySearch,
+} from 'obsidian';
+import CMDSPACELinkEagle from './main';
+import { flattenFolderPaths } from './api';
+import { getErrorMessage } from './errors';
+import { hasQueryFilters, matchesQuery, parseQuery, sortItems, toListItemsOptions } from './query';
+import { EagleItem } from './types';
+
+const EMBED_TRIGGER = '![[eagle:';
+const MAX_SUGGESTIONS = 50;
+
+export class EagleItemSuggest extends EditorSuggest<EagleItem> {
+	private plugin: CMDSPACELinkEagle;
+	private folderPaths = new Map<string, string>();
+	// The library is checked once per trigger, so typing never opens the switch prompt
+	private triggerKey: string | null = null;
+	private libraryCheck: Promise<boolean> = Promise.resolve(true);
+	// A trigger closed with Esc stays closed until its text is removed
+	private dismissedKey: string | null = null;
+	// Without a local index, Eagle is asked once per trigger and set of filters rather than on every keystroke
+	private remoteItems: { key: string; items: Promise<EagleItem[]> } | null = null;
+
+	constructor(plugin: CMDSPACELinkEagle) {
+		super(plugin.app);
+		this.plugin = plugin;
+		this.limit = MAX_SUGGESTIONS;
+		this.setInstructions([
+			{ command: '↑↓', purpose: 'to navigate' },
+			{ command: '↵', purpose: 'to insert' },
+			{ command: 'esc', purpose: 'to dismiss' },
+		]);
+	}
+
+	onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null {
+		const line = editor.getLine(cursor.line).slice(0, cursor.ch);
+		const triggers = [this.plugin.settings.editorSuggestTrigger, EMBED_TRIGGER].filter(Boolean);
+
+		for (const trigger of triggers) {
+			const start = line.lastIndexOf(trigger);
+			if (start < 0) continue;
+
+			const query = line.slice(start + trigger.length);
+			if (query.includes(']]')) continue;
+
+			const key = `${file?.path ?? ''}:${cursor.line}:${start}`;
+			if (key === this.dismissedKey) return null;
+			if (key !== this.triggerKey) {
+				this.triggerKey = key;
+				this.libraryCheck = this.plugin.ensureLibraryForNote(file?.path);
+			}
+			return {
+				start: { line: cursor.line, ch: start },
+				end: cursor,
+				query,
+			};
+		}
+		this.triggerKey = null;
+		this.dismissedKey = null;
+		return null;
+	}
+
+	close(): void {
+		if (this.triggerKey) {
+			this.dismissedKey = this.triggerKey;
+			this.triggerKey = null;
+		}
+		super.close();
+	}
+
+	async getSuggestions(context: EditorSuggestContext): Promise<EagleItem[]> {
+		if (!(await this.libraryCheck)) {
+			return [];
+		}
+
+		const parsed = parseQuery(context.query);
+		if (parsed.filters.some(filter => filter.field === 'folder') && this.folderPaths.size === 0) {
+			try {
+				this.folderPaths = flattenFolderPaths(await this.plugin.api.listFolders());
+			} catch (error) {
+				console.log('[CMDS Eagle] Folder filter unavailable while Eagle is offline:', getErrorMessage(error));
+			}
+		}
+
+		const fileTypes = new Set(this.plugin.settings.searchFileTypes);
+		const filtered = sortItems(
+			(await this.getItems(context.query)).filter(item =>
+				fileTypes.has(item.ext.toLowerCase()) && matchesQuery(item, parsed, this.folderPaths)
+			),
+			parsed
+		);
+		if (!parsed.text) {
+			return filtered.slice(0, MAX_SUGGESTIONS);
+		}
+
+		const search = prepareFuzzySearch(parsed.text);
+		const results: { item: EagleItem; score: number }[] = [];
+		for (const item of filtered) {
+			const match = search(this.getItemText(item));
+			if (match) {
+				results.push({ item, score: match.score });
+			}
+		}
+		if (!parsed.sort) {
+			results.sort((a, b) => b.score - a.score);
+		}
+		return results.slice(0, MAX_SUGGESTIONS).map(result => result.item);
+	}
+
+	renderSuggestion(item: EagleItem, el: HTMLElement): void {
+		const container = el.createDiv({ cls: 'cmdspace-eagle-suggestion' });
+		const thumbEl = container.createDiv({ cls: 'cmdspace-eagle-suggestion-thumb' });
+		this.plugin.thumbnailCache.loadInto(thumbEl, item.id, item.name);
+
+		const info = container.createDiv({ cls: 'cmdspace-eagle-suggestion-info' });
+		info.createDiv({ cls: 'cmdspace-eagle-suggestion-name', text: item.name });
+		const dimensions = item.width && item.height ? ` • ${item.width}×${item.height}` : '';
+		info.createDiv({ cls: 'cmdspace-eagle-suggestion-meta', text: `${item.ext.toUpperCase()}${dimensions}` });
+	}
+
+	selectSuggestion(item: EagleItem, _evt: MouseEvent | KeyboardEvent): void {
+		if (!this.context) return;
+
+		const { editor, start, end } = this.context;
+		const line = editor.getLine(end.line);
+		const closing = line.slice(end.ch).startsWith(']]') ? 2 : 0;
+		editor.replaceRange('', start, { line: end.line, ch: end.ch + closing });
+		editor.setCursor(start);
+		this.triggerKey = null;
+		this.close();
+
+		this.plugin.insertItemLink(editor, item).catch(error => {
+			console.error('[CMDS Eagle] Failed to insert suggestion:', error);
+		});
+	}
+
+	private async getItems(query: string): Promise<EagleItem[]> {
+		const { itemIndex } = this.plugin;
+		if (!itemIndex.isLoaded()) {
+			await itemIndex.load();
+		}
+		if (itemIndex.size > 0) {
+			return itemIndex.getItems();
+		}
+
+		const parsed = parseQuery(query);
+		const options = hasQueryFilters(parsed) ? toListItemsOptions(parsed, this.folderPaths) : {};
+		const key = `${this.triggerKey}|${JSON.stringify(options)}`;
+		if (this.remoteItems?.key !== key) {
+			this.remoteItems = {
+				key,
+				items: this.plugin.api.listItems({ ...options, limit: 1000 }).catch(error => {
+					console.log('[CMDS Eagle] Editor suggestions unavailable:', getErrorMessage(error));
+					return [];
+				}),
+			};
+		}
+		return this.remoteItems.items;
+	}
+
+	private getItemText(item: EagleItem): string {
+		const scopes = this.plugin.settings.searchScope;
+		const parts: string[] = [];
+		if (scopes.includes('name')) parts.push(item.name);
+		if (scopes.includes('tags')) parts.push(item.tags.join(' '));
+		if (scopes.includes('annotation') && item.annotation) parts.push(item.annotation);
+		if (scopes.includes('folders')) parts.push(item.folders.join('/'));
+		return parts.join(' ') || item.name;
+	}
+}
@@ -0,0 +1,131 @@
+import { Platform } from 'obsidian';
+import { EagleApiService } from './api';
+import { getErrorMessage } from './errors';
+import { EagleItemIndex } from './item-index';
+import { ThumbnailCache } from './thumbnail-cache';
+
+export const EAGLE_EMBED_SELECTOR = ['img', 'video', 'iframe']
+	.map(tag => `${tag}[src^="eagle://item/"], ${tag}[src^="eagle://library/"]`)
+	.join(', ');
+export const LIBRARY_URL_PREFIX = 'eagle://library/';
+
+interface EmbedSource {
+	itemId: string;
+	relativePath: string | null;
+}
+
+export function parseEmbedSrc(src: string): EmbedSource | null {
+	const itemMatch = src.match(/^eagle:\/\/item\/([A-Z0-9]+)/i);
+	if (itemMatch) {
+		return { itemId: itemMatch[1], relativePath: null };
+	}
+
+	if (src.startsWith(LIBRARY_URL_PREFIX)) {
+		let relativePath = src.slice(LIBRARY_URL_PREFIX.length);
+		try {
+			relativePath = decodeURIComponent(relativePath);
+		} catch {
+			// Keep the raw value when it is not valid URI encoding
+		}
+		const idMatch = relativePath.match(/^images\/([A-Z0-9]+)\.info\//i);
+		return idMatch ? { itemId: idMatch[1], relativePath } : null;
+	}
+
+	return null;
+}
+
+export function buildLibraryUrl(relativePath: string): string {
+	return LIBRARY_URL_PREFIX + relativePath.split('/').map(segment => encodeURIComponent(segment)).join('/');
+}
+
+export function toResourceUrl(path: string): string {
+	return Platform.resourcePathPrefix + encodeURI(path.replace(/\\/g, '/').replace(/^\//, ''));
+}
+
+export class EagleEmbedResolver {
+	private api: EagleApiService;
+	private itemIndex: EagleItemIndex;
+	private thumbnailCache: ThumbnailCache;
+	private resolved = new Map<string, string>();
+	private pending = new Map<string, Promise<string | null>>();
+
+	constructor(api: EagleApiService, itemIndex: EagleItemIndex, thumbnailCache: ThumbnailCache) {
+		this.api = api;
+		this.itemIndex = itemIndex;
+		this.thumbnailCache = thumbnailCache;
+	}
+
+	processImages(el: HTMLElement): void {
+		el.querySelectorAll<HTMLElement>(EAGLE_EMBED_SELECTOR).forEach(embedEl => {
+			const src = embedEl.getAttribute('src') || '';
+			const source = parseEmbedSrc(src);
+			if (!source) return;
+
+			embedEl.setAttribute('data-original-src', src);
+			embedEl.dataset.eagleId = source.itemId;
+			embedEl.addClass('cmdspace-eagle-embed');
+			void this.resolveInto(embedEl, src, source);
+		});
+	}
+
+	clear(): void {
+		this.resolved.clear();
+	}
+
+	private async resolveInto(embedEl: HTMLElement, src: string, source: EmbedSource): Promise<void> {
+		const cachedUrl = this.resolved.get(src) ?? (embedEl instanceof HTMLImageElement ? this.thumbnailCache.getCachedUrl(source.itemId) : null);
+		if (cachedUrl) {
+			embedEl.setAttribute('src', cachedUrl);
+		}
+
+		const url = await this.resolve(src, source);
+		if (url) {
+			embedEl.setAttribute('src', url);
+			embedEl.addEventListener('error', () => this.fallbackToThumbnail(embedEl, source.itemId), { once: true });
+		} else {
+			await this.fallbackToThumbnail(embedEl, source.itemId);
+		}
+	}
+
+	private resolve(src: string, source: EmbedSource): Promise<string | null> {
+		const resolved = this.resolved.get(src);
+		if (resolved) return Promise.resolve(resolved);
+
+		let pending = this.pending.get(src);
+		if (!pending) {
+			pending = this.resolveFilePath(source).then(url => {
+				this.pending.delete(src);
+				if (url) {
+					this.resolved.set(src, url);
+				}
+				return url;
+			});
+			this.pending.set(src, pending);
+		}
+		return pending;
+	}
+
+	private async resolveFilePath({ itemId, relativePath }: EmbedSource): Promise<string | null> {
+		if (!Platform.isDesktopApp) return null;
+		try {
+			if (relativePath) {
+				const libraryPath = await this.api.getLibraryPath();
+				return libraryPath ? toResourceUrl(`${libraryPath.replace(/[\\/]$/, '')}/${relativePath}`) : null;
+			}
+			const item = this.itemIndex.getItem(itemId) ?? await this.api.getItemInfo(itemId);
+			return toResourceUrl(await this.api.getOriginalFilePath(item));
+		} catch (error) {
+			console.log(`[CMDS Eagle] Could not resolve embed ${itemId}:`, getErrorMessage(error));
+			return null;
+		}
+	}
+
+	private async fallbackToThumbnail(el: HTMLElement, itemId: string): Promise<void> {
+		if (el instanceof HTMLIFrameElement) return;
+		const url = await this.thumbnailCache.getThumbnailUrl(itemId);
+		if (url) {
+			// A video that cannot load its file still shows the thumbnail as its poster
+			el.setAttribute(el instanceof HTMLVideoElement ? 'poster' : 'src', url);
+		}
+	}
+}
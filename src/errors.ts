@@ -0,0 +1,132 @@
+export class CMDSEagleError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'CMDSEagleError';
+	}
+}
+
+export class EagleNotRunningError extends CMDSEagleError {
+	constructor(baseUrl: string) {
+		super(`Eagle is not running (nothing answered at ${baseUrl}). Start Eagle and try again.`);
+		this.name = 'EagleNotRunningError';
+	}
+}
+
+export class NetworkError extends CMDSEagleError {
+	constructor(message: string) {
+		super(message);
+		this.name = 'NetworkError';
+	}
+}
+
+export class EagleTimeoutError extends NetworkError {
+	readonly endpoint: string;
+	readonly timeoutMs: number;
+
+	constructor(endpoint: string, timeoutMs: number) {
+		super(`Eagle did not respond within ${timeoutMs} ms. Eagle may be busy; try again or raise the connection timeout in settings.`);
+		this.name = 'EagleTimeoutError';
+		this.endpoint = endpoint;
+		this.timeoutMs = timeoutMs;
+	}
+}
+
+export class EagleApiError extends CMDSEagleError {
+	readonly endpoint: string;
+
+	constructor(message: string, endpoint: string) {
+		super(message);
+		this.name = 'EagleApiError';
+		this.endpoint = endpoint;
+	}
+}
+
+export class EagleHttpError extends EagleApiError {
+	readonly status: number;
+
+	constructor(endpoint: string, status: number) {
+		super(`Eagle returned HTTP ${status} for ${endpoint}`, endpoint);
+		this.name = 'EagleHttpError';
+		this.status = status;
+	}
+}
+
+export class EagleMalformedResponseError extends EagleApiError {
+	constructor(endpoint: string) {
+		super(`Eagle returned a malformed response for ${endpoint}. Try updating Eagle.`, endpoint);
+		this.name = 'EagleMalformedResponseError';
+	}
+}
+
+export class ItemNotFoundError extends CMDSEagleError {
+	readonly itemId: string;
+
+	constructor(itemId: string) {
+		super(`Eagle item ${itemId} was not found. It may have been deleted or belong to a library that is not open.`);
+		this.name = 'ItemNotFoundError';
+		this.itemId = itemId;
+	}
+}
+
+export class FileUnreadableError extends CMDSEagleError {
+	readonly path: string;
+
+	constructor(path: string) {
+		super(`Could not read ${path}. Check that the Eagle library is available on this computer.`);
+		this.name = 'FileUnreadableError';
+		this.path = path;
+	}
+}
+
+export class CloudProviderError extends CMDSEagleError {
+	readonly provider: string;
+
+	constructor(provider: string, message: string) {
+		super(message);
+		this.name = 'CloudProviderError';
+		this.provider = provider;
+	}
+}
+
+export class AuthFailedError extends CloudProviderError {
+	constructor(provider: string) {
+		super(provider, `${provider} rejected the credentials. Check the API key or login in settings.`);
+		this.name = 'AuthFailedError';
+	}
+}
+
+export class QuotaExceededError extends CloudProviderError {
+	constructor(provider: string) {
+		super(provider, `${provider} storage quota or rate limit exceeded. Try again later or check your plan.`);
+		this.name = 'QuotaExceededError';
+	}
+}
+
+export function isRetryableError(error: unknown): boolean {
+	// Connection refused means Eagle is closed; retrying only delays the answer
+	return error instanceof EagleTimeoutError || (error instanceof EagleHttpError && error.status >= 500);
+}
+
+export function getErrorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : 'Unknown error';
+}
+
+export function cloudErrorFromStatus(provider: string, status: number, detail: string): CloudProviderError {
+	if (status === 401 || status === 403) {
+		return new AuthFailedError(provider);
+	}
+	if (status === 413 || status === 429 || status === 507) {
+		return new QuotaExceededError(provider);
+	}
+	return new CloudProviderError(provider, `${provider} upload failed (${status})${detail ? `: ${detail}` : ''}`);
+}
+
+export function toCloudError(provider: string, error: unknown): CMDSEagleError {
+	if (error instanceof CMDSEagleError) {
+		return error;
+	}
+	if (error instanceof TypeError) {
+		return new NetworkError(`Could not reach ${provider}: ${error.message}. Check your internet connection.`);
+	}
+	return new CloudProviderError(provider, `${provider} upload failed: ${getErrorMessage(error)}`);
+}
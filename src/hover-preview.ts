@@ -0,0 +1,168 @@
+import { HoverParent, HoverPopover, Notice, Platform, setIcon } from 'obsidian';
+import CMDSPACELinkEagle from './main';
+import { buildEagleItemUrl, hasR2Upload } from './api';
+import { toResourceUrl } from './embed-resolver';
+import { getErrorMessage } from './errors';
+import { isInternalTag } from './tag-sync';
+import { EagleItem } from './types';
+
+const HOVER_DELAY = 300;
+
+export function getLibraryItemId(src: string): string | null {
+	let decoded = src;
+	try {
+		decoded = decodeURIComponent(src);
+	} catch {
+		// Keep the raw value when it is not valid URI encoding
+	}
+	const match = decoded.replace(/\\/g, '/').match(/\.library\/images\/([A-Z0-9]+)\.info\//i);
+	return match ? match[1] : null;
+}
+
+export class EagleHoverPreview implements HoverParent {
+	hoverPopover: HoverPopover | null = null;
+	private plugin: CMDSPACELinkEagle;
+
+	constructor(plugin: CMDSPACELinkEagle) {
+		this.plugin = plugin;
+	}
+
+	attach(targetEl: HTMLElement, itemId: string): void {
+		if (targetEl.dataset.eagleHover) return;
+		targetEl.dataset.eagleHover = itemId;
+
+		targetEl.addEventListener('mouseenter', () => {
+			const popover = new HoverPopover(this, targetEl, HOVER_DELAY);
+			popover.hoverEl.addClass('cmdspace-eagle-hover');
+			void this.renderPopover(popover.hoverEl, itemId);
+		});
+	}
+
+	private async renderPopover(hoverEl: HTMLElement, itemId: string): Promise<void> {
+		const contentEl = hoverEl.createDiv({ cls: 'cmdspace-eagle-hover-content' });
+		contentEl.createDiv({ cls: 'cmdspace-eagle-block-message', text: 'Loading...' });
+
+		let item: EagleItem;
+		let cached = false;
+		try {
+			item = await this.plugin.api.getItemInfo(itemId);
+			this.plugin.itemIndex.upsert(item);
+		} catch (error) {
+			const indexed = this.plugin.itemIndex.getItem(itemId);
+			if (!indexed) {
+				contentEl.empty();
+				contentEl.createDiv({ cls: 'cmdspace-eagle-block-message', text: getErrorMessage(error) });
+				return;
+			}
+			item = indexed;
+			cached = true;
+		}
+
+		contentEl.empty();
+		await this.renderImage(contentEl.createDiv({ cls: 'cmdspace-eagle-hover-image' }), item, cached);
+
+		const header = contentEl.createDiv({ cls: 'cmdspace-eagle-block-header' });
+		header.createSpan({ cls: 'cmdspace-eagle-block-name', text: `${item.name}.${item.ext}` });
+		if (cached) {
+			header.createSpan({ cls: 'cmdspace-eagle-block-badge', text: 'cached' });
+		}
+
+		const dimensions = item.width && item.height ? ` • ${item.width}×${item.height}` : '';
+		contentEl.createDiv({ cls: 'cmdspace-eagle-block-meta', text: `${item.ext.toUpperCase()}${dimensions}` });
+
+		this.renderPalettes(contentEl, item);
+
+		const tags = item.tags.filter(tag => !isInternalTag(tag));
+		if (tags.length > 0) {
+			const tagsEl = contentEl.createDiv({ cls: 'cmdspace-eagle-suggestion-tags' });
+			tags.forEach(tag => tagsEl.createSpan({ cls: 'cmdspace-eagle-tag', text: tag }));
+		}
+		if (item.annotation) {
+			contentEl.createDiv({ cls: 'cmdspace-eagle-block-annotation', text: item.annotation });
+		}
+		if (item.url) {
+			const sourceEl = contentEl.createDiv({ cls: 'cmdspace-eagle-block-meta' });
+			sourceEl.createEl('a', { text: item.url, href: item.url });
+		}
+
+		this.renderActions(contentEl.createDiv({ cls: 'cmdspace-eagle-hover-actions' }), item);
+	}
+
+	private async renderImage(imageEl: HTMLElement, item: EagleItem, cached: boolean): Promise<void> {
+		const cloudUrl = this.plugin.api.getCloudUrl(item);
+		let src = cloudUrl;
+		if (!src && !cached && Platform.isDesktopApp) {
+			try {
+				src = toResourceUrl(await this.plugin.api.getOriginalFilePath(item));
+			} catch (error) {
+				console.log('[CMDS Eagle] Original file unavailable for hover preview:', getErrorMessage(error));
+			}
+		}
+
+		if (!src) {
+			this.plugin.thumbnailCache.loadInto(imageEl, item.id, item.name);
+			return;
+		}
+
+		const img = imageEl.createEl('img', { attr: { src, alt: item.name } });
+		img.addEventListener('error', () => {
+			img.remove();
+			this.plugin.thumbnailCache.loadInto(imageEl, item.id, item.name);
+		}, { once: true });
+	}
+
+	private renderPalettes(container: HTMLElement, item: EagleItem): void {
+		if (!item.palettes || item.palettes.length === 0) return;
+
+		const paletteEl = container.createDiv({ cls: 'cmdspace-eagle-palette' });
+		item.palettes
+			.slice()
+			.sort((a, b) => b.ratio - a.ratio)
+			.forEach(palette => {
+				const [r, g, b] = palette.color;
+				const swatch = paletteEl.createSpan({
+					cls: 'cmdspace-eagle-swatch',
+					attr: { 'aria-label': `rgb(${r}, ${g}, ${b}) · ${Math.round(palette.ratio)}%` },
+				});
+				swatch.style.backgroundColor = `rgb(${r}, ${g}, ${b})`;
+			});
+	}
+
+	private renderActions(container: HTMLElement, item: EagleItem): void {
+		this.createAction(container, 'external-link', 'Open in Eagle', () => {
+			window.open(buildEagleItemUrl(item.id));
+		});
+
+		if (hasR2Upload(item)) {
+			this.createAction(container, 'copy', 'Copy cloud URL', async () => {
+				const cloudUrl = this.plugin.api.getCloudUrl(item);
+				if (!cloudUrl) {
+					new Notice('Cloud public URL is not configured');
+					return;
+				}
+				await navigator.clipboard.writeText(cloudUrl);
+				new Notice('Cloud URL copied to clipboard');
+			});
+		} else {
+			const uploadBtn = this.createAction(container, 'upload-cloud', 'Upload to cloud', async () => {
+				uploadBtn.disabled = true;
+				const cloudUrl = await this.plugin.uploadItemToCloud(item);
+				if (!cloudUrl) {
+					uploadBtn.disabled = false;
+				}
+			});
+		}
+	}
+
+	private createAction(container: HTMLElement, icon: string, label: string, onClick: () => void | Promise<void>): HTMLButtonElement {
+		const btn = container.createEl('button', { cls: 'cmdspace-eagle-block-open' });
+		setIcon(btn.createSpan(), icon);
+		btn.createSpan({ text: label });
+		btn.addEventListener('click', (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			void onClick();
+		});
+		return btn;
+	}
+}
@@ -0,0 +1,133 @@
+import { htmlToMarkdown } from 'obsidian';
+import { EagleApiService, buildEagleItemUrl } from './api';
+import { getErrorMessage } from './errors';
+import { EagleItem } from './types';
+
+const IMPORT_POLL_ATTEMPTS = 20;
+const IMPORT_POLL_INTERVAL_MS = 500;
+
+interface RemoteImage {
+	element: HTMLImageElement;
+	url: string;
+	name: string;
+}
+
+export interface HtmlImportResult {
+	markdown: string;
+	imported: number;
+	failed: number;
+}
+
+/** The page the HTML was copied from, when the clipboard records it (CF_HTML on Windows, or a <base> tag). */
+export function getHtmlSourceUrl(html: string, doc: Document): string | null {
+	const sourceMatch = html.match(/^SourceURL:(\S+)/m);
+	if (sourceMatch) return sourceMatch[1];
+
+	const base = doc.querySelector('base[href]')?.getAttribute('href');
+	return base && /^https?:\/\//i.test(base) ? base : null;
+}
+
+/** Whether the HTML has any image the importer would fetch, resolved the same way as during the import. */
+export function hasRemoteImages(html: string): boolean {
+	if (!/<img/i.test(html)) return false;
+	const doc = new DOMParser().parseFromString(html, 'text/html');
+	return findRemoteImages(doc, getHtmlSourceUrl(html, doc)).length > 0;
+}
+
+function findRemoteImages(doc: Document, sourceUrl: string | null): RemoteImage[] {
+	const images: RemoteImage[] = [];
+	doc.querySelectorAll<HTMLImageElement>('img[src]').forEach(element => {
+		let url: URL;
+		try {
+			url = new URL(element.getAttribute('src') as string, sourceUrl ?? undefined);
+		} catch {
+			return;
+		}
+		if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
+
+		const fileName = decodeURIComponent(url.pathname.split('/').pop() || '').replace(/\.[^.]+$/, '');
+		const name = (element.getAttribute('alt') || element.getAttribute('title') || fileName || url.hostname).trim();
+		images.push({ element, url: url.href, name });
+	});
+	return images;
+}
+
+export class HtmlImageImporter {
+	private api: EagleApiService;
+
+	constructor(api: EagleApiService) {
+		this.api = api;
+	}
+
+	/**
+	 * Imports every remote image in the pasted HTML into Eagle and returns the HTML as
+	 * markdown pointing at the Eagle copies. Images Eagle did not accept stay hot-linked.
+	 */
+	async import(
+		html: string,
+		options: { folderId?: string; toEmbedUrl: (item: EagleItem) => Promise<string> }
+	): Promise<HtmlImportResult> {
+		const doc = new DOMParser().parseFromString(html, 'text/html');
+		const sourceUrl = getHtmlSourceUrl(html, doc);
+		const images = findRemoteImages(doc, sourceUrl);
+
+		// Eagle item ids map each imported item back to its <img>
+		const requested = new Map<string, RemoteImage>();
+		for (const image of images) {
+			try {
+				const itemId = await this.api.addFromUrl({
+					url: image.url,
+					name: image.name,
+					website: sourceUrl ?? image.url,
+					folderId: options.folderId,
+				});
+				if (itemId) {
+					requested.set(itemId, image);
+				} else {
+					console.log(`[CMDS Eagle] Eagle did not return an item id for ${image.url}; leaving it linked to the web`);
+				}
+			} catch (error) {
+				console.log(`[CMDS Eagle] Could not import ${image.url}:`, getErrorMessage(error));
+			}
+		}
+
+		const items = await this.waitForItems([...requested.keys()]);
+		requested.forEach((image, id) => {
+			// Eagle is still downloading this one; the id embed resolves once it has finished
+			image.element.setAttribute('src', buildEagleItemUrl(id));
+		});
+		for (const item of items) {
+			const image = requested.get(item.id);
+			if (!image) continue;
+			try {
+				image.element.setAttribute('src', await options.toEmbedUrl(item));
+			} catch (error) {
+				console.log(`[CMDS Eagle] Could not embed imported item ${item.id}:`, getErrorMessage(error));
+			}
+		}
+
+		return {
+			markdown: htmlToMarkdown(doc.body),
+			imported: requested.size,
+			failed: images.length - requested.size,
+		};
+	}
+
+	private async waitForItems(ids: string[]): Promise<EagleItem[]> {
+		const items = new Map<string, EagleItem>();
+		for (let attempt = 0; attempt < IMPORT_POLL_ATTEMPTS && items.size < ids.length; attempt++) {
+			if (attempt > 0) {
+				await new Promise(resolve => setTimeout(resolve, IMPORT_POLL_INTERVAL_MS));
+			}
+			for (const id of ids) {
+				if (items.has(id)) continue;
+				try {
+					items.set(id, await this.api.getItemInfo(id));
+				} catch (error) {
+					console.log(`[CMDS Eagle] Waiting for pasted image ${id}:`, getErrorMessage(error));
+				}
+			}
+		}
+		return [...items.values()];
+	}
+}
@@ -0,0 +1,252 @@
+import { DataAdapter, Events, debounce } from 'obsidian';
+import { EagleApiService } from './api';
+import { EagleItem } from './types';
+
+interface EagleItemIndexData {
+	version: number;
+	libraryPath: string | null;
+	refreshedAt: number;
+	fullRefreshedAt?: number;
+	highWaterMark?: number;
+	items: EagleItem[];
+}
+
+export interface ItemIndexRefreshResult {
+	added: number;
+	updated: number;
+	removed: number;
+}
+
+const INDEX_VERSION = 1;
+const PAGE_SIZE = 1000;
+const STALE_AFTER_MS = 5 * 60 * 1000;
+const FULL_REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const SAVE_DELAY_MS = 2000;
+
+// Older Eagle versions leave out btime; modificationTime is set when the item is added
+function getCreatedTime(item: EagleItem): number {
+	return item.btime ?? item.modificationTime;
+}
+
+// Tags are compared too: callers upsert a copy with new tags before Eagle reports a new lastModified
+function hasChanged(existing: EagleItem, item: EagleItem): boolean {
+	return existing.modificationTime !== item.modificationTime
+		|| existing.lastModified !== item.lastModified
+		|| existing.tags.join('\n') !== item.tags.join('\n');
+}
+
+export class EagleItemIndex extends Events {
+	private adapter: DataAdapter;
+	private api: EagleApiService;
+	private indexPath: string;
+	private items = new Map<string, EagleItem>();
+	private libraryPath: string | null = null;
+	private refreshedAt = 0;
+	private fullRefreshedAt = 0;
+	// Newest creation time seen by a refresh. Incremental refreshes only find items created after it,
+	// so edits to older items wait for the next full refresh.
+	private highWaterMark = 0;
+	private loaded = false;
+	private pendingRefresh: Promise<ItemIndexRefreshResult | null> | null = null;
+	// Upserts arrive in per-item loops, so they share one write of the index
+	private requestSave = debounce(() => void this.save(), SAVE_DELAY_MS, true);
+
+	constructor(adapter: DataAdapter, api: EagleApiService, indexPath: string) {
+		super();
+		this.adapter = adapter;
+		this.api = api;
+		this.indexPath = indexPath;
+	}
+
+	async load(): Promise<void> {
+		try {
+			if (await this.adapter.exists(this.indexPath)) {
+				const data = JSON.parse(await this.adapter.read(this.indexPath)) as EagleItemIndexData;
+				if (data.version === INDEX_VERSION && Array.isArray(data.items)) {
+					this.items = new Map(data.items.map(item => [item.id, item]));
+					this.libraryPath = data.libraryPath;
+					this.refreshedAt = data.refreshedAt;
+					this.fullRefreshedAt = data.fullRefreshedAt ?? 0;
+					this.highWaterMark = data.highWaterMark ?? 0;
+				}
+			}
+		} catch (error) {
+			console.error('[CMDS Eagle] Failed to load item index:', error);
+			this.items.clear();
+		}
+		this.loaded = true;
+		this.trigger('changed');
+	}
+
+	isLoaded(): boolean {
+		return this.loaded;
+	}
+
+	isRefreshing(): boolean {
+		return this.pendingRefresh !== null;
+	}
+
+	get size(): number {
+		return this.items.size;
+	}
+
+	getRefreshedAt(): number {
+		return this.refreshedAt;
+	}
+
+	isStale(): boolean {
+		return Date.now() - this.refreshedAt > STALE_AFTER_MS;
+	}
+
+	getItems(): EagleItem[] {
+		return Array.from(this.items.values());
+	}
+
+	getItem(id: string): EagleItem | null {
+		return this.items.get(id) ?? null;
+	}
+
+	upsert(item: EagleItem): void {
+		const existing = this.items.get(item.id);
+		if (existing && !hasChanged(existing, item)) return;
+		this.items.set(item.id, item);
+		this.trigger('changed');
+		this.requestSave();
+	}
+
+	/** Writes a pending upsert save right away. */
+	flush(): void {
+		this.requestSave.run();
+	}
+
+	remove(id: string): void {
+		if (!this.items.delete(id)) return;
+		this.trigger('changed');
+		this.requestSave();
+	}
+
+	refresh(): Promise<ItemIndexRefreshResult | null> {
+		if (!this.pendingRefresh) {
+			this.pendingRefresh = this.runRefresh()
+				.catch((error) => {
+					console.error('[CMDS Eagle] Failed to refresh item index:', error);
+					return null;
+				})
+				.then((result) => {
+					this.pendingRefresh = null;
+					return result;
+				});
+		}
+		return this.pendingRefresh;
+	}
+
+	async clear(): Promise<void> {
+		this.items.clear();
+		this.libraryPath = null;
+		this.refreshedAt = 0;
+		this.fullRefreshedAt = 0;
+		this.highWaterMark = 0;
+		this.trigger('changed');
+		await this.save();
+	}
+
+	private async runRefresh(): Promise<ItemIndexRefreshResult | null> {
+		const connected = await this.api.isConnected();
+		if (!connected) return null;
+
+		const libraryPath = await this.api.getLibraryPath();
+		if (libraryPath !== this.libraryPath) {
+			this.items.clear();
+			this.libraryPath = libraryPath;
+		}
+
+		const full = this.items.size === 0 || Date.now() - this.fullRefreshedAt > FULL_REFRESH_INTERVAL_MS;
+		const result = full ? await this.refreshAll() : await this.refreshSince(this.highWaterMark);
+
+		this.refreshedAt = Date.now();
+		if (full) {
+			this.fullRefreshedAt = this.refreshedAt;
+		}
+		if (result.added || result.updated || result.removed) {
+			console.log(`[CMDS Eagle] Item index refreshed: +${result.added} ~${result.updated} -${result.removed}`);
+			this.trigger('changed');
+		}
+		await this.save();
+		return result;
+	}
+
+	/** Re-reads the whole library, picking up edits to older items and removing deleted ones. */
+	private async refreshAll(): Promise<ItemIndexRefreshResult> {
+		const result: ItemIndexRefreshResult = { added: 0, updated: 0, removed: 0 };
+		const seen = new Set<string>();
+		this.highWaterMark = 0;
+
+		for (let page = 0; ; page++) {
+			const batch = await this.api.listItems({ limit: PAGE_SIZE, offset: page });
+			for (const item of batch) {
+				if (item.isDeleted) continue;
+				seen.add(item.id);
+				this.applyItem(item, result);
+			}
+			if (batch.length < PAGE_SIZE) break;
+			await new Promise(resolve => setTimeout(resolve, 0));
+		}
+
+		for (const id of Array.from(this.items.keys())) {
+			if (!seen.has(id)) {
+				this.items.delete(id);
+				result.removed++;
+			}
+		}
+		return result;
+	}
+
+	/** Reads items in creation order, newest first, and stops at the first page that reaches the high-water mark. */
+	private async refreshSince(mark: number): Promise<ItemIndexRefreshResult> {
+		const result: ItemIndexRefreshResult = { added: 0, updated: 0, removed: 0 };
+
+		for (let page = 0; ; page++) {
+			const batch = await this.api.listItems({ limit: PAGE_SIZE, offset: page, orderBy: '-CREATEDATE' });
+			let reachedMark = false;
+			for (const item of batch) {
+				if (getCreatedTime(item) <= mark) reachedMark = true;
+				if (item.isDeleted) {
+					if (this.items.delete(item.id)) result.removed++;
+					continue;
+				}
+				this.applyItem(item, result);
+			}
+			if (reachedMark || batch.length < PAGE_SIZE) break;
+			await new Promise(resolve => setTimeout(resolve, 0));
+		}
+		return result;
+	}
+
+	private applyItem(item: EagleItem, result: ItemIndexRefreshResult): void {
+		this.highWaterMark = Math.max(this.highWaterMark, getCreatedTime(item));
+		const existing = this.items.get(item.id);
+		if (!existing) {
+			this.items.set(item.id, item);
+			result.added++;
+		} else if (hasChanged(existing, item)) {
+			this.items.set(item.id, item);
+			result.updated++;
+		}
+	}
+
+	private async save(): Promise<void> {
+		const data: EagleItemIndexData = {
+			version: INDEX_VERSION,
+			libraryPath: this.libraryPath,
+			refreshedAt: this.refreshedAt,
+			fullRefreshedAt: this.fullRefreshedAt,
+			highWaterMark: this.highWaterMark,
+			items: this.getItems(),
+		};
+		try {
+			await this.adapter.write(this.indexPath, JSON.stringify(data));
+		} catch (error) {
+			console.error('[CMDS Eagle] Failed to save item index:', error);
+		}
+	}
+}
@@ -0,0 +1,138 @@
+import { App, Notice } from 'obsidian';
+import { EagleApiService } from './api';
+import { CrossPlatformPaths, getLibraryName } from './cross-platform';
+import { getErrorMessage } from './errors';
+import { LibrarySwitchModal } from './modals';
+import { CMDSPACEEagleSettings, EagleLibraryProfile } from './types';
+
+const SWITCH_POLL_ATTEMPTS = 20;
+const SWITCH_POLL_INTERVAL_MS = 500;
+
+export type LibraryCheckResult = 'match' | 'switched' | 'kept' | 'cancelled';
+
+export function isSameLibrary(a: string, b: string): boolean {
+	return getLibraryName(a).toLowerCase() === getLibraryName(b).toLowerCase();
+}
+
+export class LibraryManager {
+	private app: App;
+	private api: EagleApiService;
+	private crossPlatform: CrossPlatformPaths;
+	private settings: CMDSPACEEagleSettings;
+	private keptLibraries = new Set<string>();
+	// Cancelling is remembered until Eagle's library changes, so re-rendered embeds do not prompt again;
+	// explicit actions such as opening search still ask
+	private cancelledLibraries = new Set<string>();
+	private pendingChecks = new Map<string, Promise<LibraryCheckResult>>();
+	// The library Eagle has open, cached until a switch so repeated checks do not call the API
+	private openLibraryPath: string | null = null;
+
+	constructor(app: App, api: EagleApiService, crossPlatform: CrossPlatformPaths, settings: CMDSPACEEagleSettings) {
+		this.app = app;
+		this.api = api;
+		this.crossPlatform = crossPlatform;
+		this.settings = settings;
+	}
+
+	updateSettings(settings: CMDSPACEEagleSettings): void {
+		this.settings = settings;
+	}
+
+	getLibrary(id: string): EagleLibraryProfile | null {
+		return this.settings.libraries.find(library => library.id === id) ?? null;
+	}
+
+	/** The library bound to the deepest matching folder, falling back to the vault default. */
+	getLibraryForPath(notePath: string): EagleLibraryProfile | null {
+		let best: { folder: string; library: EagleLibraryProfile } | null = null;
+		for (const binding of this.settings.libraryBindings) {
+			const folder = binding.folder.replace(/^\/+|\/+$/g, '');
+			if (folder && notePath !== folder && !notePath.startsWith(folder + '/')) continue;
+
+			const library = this.getLibrary(binding.libraryId);
+			if (library && (!best || folder.length > best.folder.length)) {
+				best = { folder, library };
+			}
+		}
+		return best?.library ?? this.getLibrary(this.settings.defaultLibraryId);
+	}
+
+	/**
+	 * Checks that Eagle has the note's library open and offers to switch when it does not.
+	 * Concurrent callers for the same library share one prompt, and a library the user chose to keep is not asked about again.
+	 * Passive callers, such as rendering embeds, are not asked again after the user cancelled.
+	 */
+	ensureLibraryForPath(notePath: string, passive = false): Promise<LibraryCheckResult> {
+		const library = this.getLibraryForPath(notePath);
+		if (!library || this.keptLibraries.has(library.id)) return Promise.resolve('match');
+		if (passive && this.cancelledLibraries.has(library.id)) return Promise.resolve('cancelled');
+
+		let pending = this.pendingChecks.get(library.id);
+		if (!pending) {
+			pending = this.checkLibrary(notePath, library).then(
+				result => {
+					this.pendingChecks.delete(library.id);
+					return result;
+				},
+				error => {
+					this.pendingChecks.delete(library.id);
+					throw error;
+				}
+			);
+			this.pendingChecks.set(library.id, pending);
+		}
+		return pending;
+	}
+
+	/** Forgets the cached open library, e.g. after Eagle switched libraries. */
+	forgetOpenLibrary(): void {
+		this.openLibraryPath = null;
+		this.cancelledLibraries.clear();
+	}
+
+	async switchTo(library: EagleLibraryProfile): Promise<boolean> {
+		const libraryPath = this.crossPlatform.convert(library.path);
+		const notice = new Notice(`Opening ${library.name} in Eagle...`, 0);
+		try {
+			await this.api.switchLibrary(libraryPath);
+			for (let attempt = 0; attempt < SWITCH_POLL_ATTEMPTS; attempt++) {
+				const openPath = await this.api.getLibraryPath();
+				if (openPath && isSameLibrary(openPath, libraryPath)) {
+					notice.hide();
+					new Notice(`Eagle switched to ${library.name}`);
+					return true;
+				}
+				await new Promise(resolve => setTimeout(resolve, SWITCH_POLL_INTERVAL_MS));
+			}
+			notice.hide();
+			new Notice(`Eagle did not finish opening ${library.name}`);
+			return false;
+		} catch (error) {
+			notice.hide();
+			new Notice(getErrorMessage(error));
+			return false;
+		}
+	}
+
+	private async checkLibrary(notePath: string, library: EagleLibraryProfile): Promise<LibraryCheckResult> {
+		if (!this.openLibraryPath) {
+			this.openLibraryPath = await this.api.getLibraryPath();
+		}
+		const openPath = this.openLibraryPath;
+		if (!openPath || isSameLibrary(openPath, library.path)) return 'match';
+
+		console.log(`[CMDS Eagle] ${notePath} uses ${library.name} but Eagle has ${openPath} open`);
+		const modal = new LibrarySwitchModal(this.app, library.name, getLibraryName(openPath).replace(/\.library$/i, ''));
+		modal.open();
+		const choice = await modal.getResponse();
+		if (choice === 'switch') {
+			return await this.switchTo(library) ? 'switched' : 'cancelled';
+		}
+		if (choice === 'keep') {
+			this.keptLibraries.add(library.id);
+			return 'kept';
+		}
+		this.cancelledLibraries.add(library.id);
+		return 'cancelled';
+	}
+}
@@ -0,0 +1,38 @@
+import { ViewPlugin, ViewUpdate, EditorView } from '@codemirror/view';
+import { editorInfoField } from 'obsidian';
+import CMDSPACELinkEagle from './main';
+
+export function createLivePreviewImageExtension(plugin: CMDSPACELinkEagle) {
+	return ViewPlugin.fromClass(class {
+		private frame: number | null = null;
+		private observer: MutationObserver;
+
+		constructor(private view: EditorView) {
+			// Image widgets are created lazily after the view update, so watch the DOM as well.
+			this.observer = new MutationObserver(() => this.schedule());
+			this.observer.observe(view.contentDOM, { childList: true, subtree: true });
+			this.schedule();
+		}
+
+		update(update: ViewUpdate): void {
+			if (update.docChanged || update.viewportChanged) {
+				this.schedule();
+			}
+		}
+
+		destroy(): void {
+			this.observer.disconnect();
+			if (this.frame !== null) {
+				window.cancelAnimationFrame(this.frame);
+			}
+		}
+
+		private schedule(): void {
+			if (this.frame !== null) return;
+			this.frame = window.requestAnimationFrame(() => {
+				this.frame = null;
+				plugin.processRenderedImages(this.view.contentDOM, this.view.state.field(editorInfoField, false)?.file?.path);
+			});
+		}
+	});
+}
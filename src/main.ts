@@ -7,14 +7,22 @@ import {
 	Menu,
 	EditorPosition,
 	TAbstractFile,
+	getAllTags,
+	htmlToMarkdown,
 } from 'obsidian';
 import {
 	CMDSPACEEagleSettings,
 	DEFAULT_SETTINGS,
+	DEFAULT_TEMPLATES,
+	CloudProviderType,
+	EagleFolderOption,
 	EagleItem,
+	EagleLibraryProfile,
 	ImagePasteBehavior,
-	ComputerProfile,
-	PlatformType,
+	PasteDestination,
+	PasteRule,
+	SUPPORTED_DOCUMENT_EXTENSIONS,
+	SUPPORTED_VIDEO_EXTENSIONS,
 } from './types';
 import { 
 	EagleApiService, 
@@ -25,13 +33,39 @@ import {
 	isEagleLocalhostUrl,
 	buildEagleLocalhostThumbnailUrl,
 } from './api';
-import { EagleSearchModal, ImagePasteChoiceModal } from './modals';
+import { EagleFolderModal, EagleSearchModal, EmbedMigrationModal, ImagePasteChoiceModal, TagConflictModal } from './modals';
+import { EagleItemIndex } from './item-index';
+import { ThumbnailCache } from './thumbnail-cache';
+import { TagSyncEngine, TagConflict } from './tag-sync';
+import { CARD_BLOCK_REGEX, CardTemplateName, EmbedRenderer, getFileKind } from './templates';
+import { EagleHoverPreview, getLibraryItemId } from './hover-preview';
+import { EagleItemSuggest } from './editor-suggest';
+import { EAGLE_EMBED_SELECTOR, EagleEmbedResolver, toResourceUrl } from './embed-resolver';
+import { createLivePreviewImageExtension } from './live-preview';
+import { CrossPlatformPaths, urlToPath } from './cross-platform';
+import { EmbedMigration, countChanges } from './migration';
+import { LibraryManager } from './libraries';
+import { HtmlImageImporter, hasRemoteImages } from './html-import';
+import { PasteOptions, findPasteRule, renderFilename, toPasteOptions } from './paste-rules';
+import { EagleBlockRenderer, EagleGalleryRenderer } from './code-blocks';
+import { EagleBrowserView, EAGLE_BROWSER_VIEW_TYPE, EAGLE_ITEM_DRAG_TYPE } from './eagle-view';
+import { EagleNotRunningError, ItemNotFoundError, NetworkError, getErrorMessage } from './errors';
 import { CMDSPACEEagleSettingTab } from './settings';
 import { createCloudProvider, getMimeType, getExtFromFilename, CloudProvider } from './cloud-providers';
 
 export default class CMDSPACELinkEagle extends Plugin {
 	settings: CMDSPACEEagleSettings;
 	api: EagleApiService;
+	itemIndex: EagleItemIndex;
+	thumbnailCache: ThumbnailCache;
+	tagSync: TagSyncEngine;
+	renderer: EmbedRenderer;
+	hoverPreview: EagleHoverPreview;
+	embedResolver: EagleEmbedResolver;
+	embedMigration: EmbedMigration;
+	crossPlatform: CrossPlatformPaths;
+	libraries: LibraryManager;
+	htmlImporter: HtmlImageImporter;
 	private lastModifiedFile: string | null = null;
 
 	async onload(): Promise<void> {
@@ -39,12 +73,105 @@ export default class CMDSPACELinkEagle extends Plugin {
 
 		await this.loadSettings();
 		this.api = new EagleApiService(this.settings);
+		this.crossPlatform = new CrossPlatformPaths(this.settings, this.getVaultPath());
+		this.libraries = new LibraryManager(this.app, this.api, this.crossPlatform, this.settings);
+		this.renderer = new EmbedRenderer(this.settings, this.api);
+		this.hoverPreview = new EagleHoverPreview(this);
+		this.itemIndex = new EagleItemIndex(this.app.vault.adapter, this.api, this.getPluginFilePath('item-index.json'));
+		this.thumbnailCache = new ThumbnailCache(this.app.vault.adapter, this.api, this.getPluginFilePath('thumbnails'), this.settings);
+		this.embedResolver = new EagleEmbedResolver(this.api, this.itemIndex, this.thumbnailCache);
+		this.tagSync = new TagSyncEngine(this.app, this.api, this.itemIndex, this.getPluginFilePath('tag-sync-state.json'), this.settings);
+		this.htmlImporter = new HtmlImageImporter(this.api);
+		this.embedMigration = new EmbedMigration(this.app, this.api, this.itemIndex, this.getPluginFilePath('migration-journal.json'));
+
+		this.registerView(EAGLE_BROWSER_VIEW_TYPE, (leaf) => new EagleBrowserView(leaf, this));
+
+		this.app.workspace.onLayoutReady(async () => {
+			await this.itemIndex.load();
+			void this.thumbnailCache.load();
+			await this.tagSync.load();
+			await this.embedMigration.load();
+			void this.itemIndex.refresh();
+			void this.fillCurrentLibraryPath();
+		});
 
 		this.addCommand({
 			id: 'search-eagle',
 			name: 'Search Eagle library and embed',
-			editorCallback: (editor: Editor, view: MarkdownView) => {
-				new EagleSearchModal(this.app, this.api, this.settings).open();
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				await this.openSearchModal();
+			},
+		});
+
+		this.addCommand({
+			id: 'open-eagle-browser',
+			name: 'Open Eagle browser',
+			callback: async () => {
+				await this.activateBrowserView();
+			},
+		});
+
+		this.addCommand({
+			id: 'rebuild-item-index',
+			name: 'Rebuild Eagle item index',
+			callback: async () => {
+				await this.rebuildItemIndex();
+			},
+		});
+
+		this.addCommand({
+			id: 'insert-from-clipboard',
+			name: 'Insert Eagle item from clipboard URL',
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				await this.insertFromClipboard(editor);
+			},
+		});
+
+		this.addCommand({
+			id: 'open-eagle-item',
+			name: 'Open Eagle item on current line',
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				await this.openEagleItemUnderCursor(editor);
+			},
+		});
+
+		this.addCommand({
+			id: 'capture-url-to-eagle',
+			name: 'Capture clipboard URL to Eagle',
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				await this.captureUrlToEagle(editor);
+			},
+		});
+
+		this.addCommand({
+			id: 'refresh-note-metadata',
+			name: 'Refresh Eagle metadata cards in current note',
+			callback: async () => {
+				await this.refreshCurrentNoteMetadata();
+			},
+		});
+
+		this.addCommand({
+			id: 'sync-tags',
+			name: 'Sync tags between note and linked Eagle items',
+			callback: async () => {
+				await this.syncTags();
+			},
+		});
+
+		this.addCommand({
+			id: 'sync-tags-to-eagle',
+			name: 'Add note tags to linked Eagle items',
+			callback: async () => {
+				await this.syncTagsToEagle();
+			},
+		});
+
+		this.addCommand({
+			id: 'sync-tags-from-eagle',
+			name: 'Add tags from linked Eagle items to note',
+			callback: async () => {
+				await this.syncTagsFromEagle();
 			},
 		});
 
@@ -80,7 +207,37 @@ export default class CMDSPACELinkEagle extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: 'migrate-embeds',
+			name: 'Migrate file:// embeds in vault to portable Eagle references',
+			callback: () => {
+				new EmbedMigrationModal(this.app, this.embedMigration).open();
+			},
+		});
 
+		this.addCommand({
+			id: 'undo-embed-migration',
+			name: 'Undo last embed migration',
+			callback: async () => {
+				await this.undoEmbedMigration();
+			},
+		});
+
+		this.addCommand({
+			id: 'create-note-folder',
+			name: 'Create Eagle folder for current note',
+			callback: async () => {
+				await this.createNoteFolder();
+			},
+		});
+
+		this.addCommand({
+			id: 'choose-note-folder',
+			name: 'Choose Eagle folder for pastes in current note',
+			callback: async () => {
+				await this.chooseNoteFolder();
+			},
+		});
 
 		this.registerEvent(
 			this.app.workspace.on('editor-paste', async (evt: ClipboardEvent, editor: Editor) => {
@@ -104,30 +261,93 @@ export default class CMDSPACELinkEagle extends Plugin {
 							.onClick(() => this.uploadLocalImageToEagle(editor, localImage));
 					});
 				}
+
+				if (/eagle:\/\/item\/[A-Z0-9]+/i.test(editor.getLine(editor.getCursor().line))) {
+					menu.addItem((item) => {
+						item.setTitle('Open in Eagle')
+							.setIcon('external-link')
+							.onClick(() => this.openEagleItemUnderCursor(editor));
+					});
+				}
+
+				menu.addItem((item) => {
+					item.setTitle('Insert Eagle item from clipboard')
+						.setIcon('clipboard-paste')
+						.onClick(() => this.insertFromClipboard(editor));
+				});
+
+				menu.addItem((item) => {
+					item.setTitle('Capture clipboard URL to Eagle')
+						.setIcon('download')
+						.onClick(() => this.captureUrlToEagle(editor));
+				});
+
+				if (this.extractEagleLinks(editor.getValue()).length > 0) {
+					menu.addItem((item) => {
+						item.setTitle('Sync tags with Eagle items')
+							.setIcon('refresh-ccw')
+							.onClick(() => this.syncTags());
+					});
+					menu.addItem((item) => {
+						item.setTitle('Refresh Eagle metadata cards')
+							.setIcon('refresh-cw')
+							.onClick(() => this.refreshCurrentNoteMetadata());
+					});
+					menu.addItem((item) => {
+						item.setTitle('Add note tags to Eagle items')
+							.setIcon('tags')
+							.onClick(() => this.syncTagsToEagle());
+					});
+					menu.addItem((item) => {
+						item.setTitle('Add Eagle tags to note')
+							.setIcon('tag')
+							.onClick(() => this.syncTagsFromEagle());
+					});
+				}
 			})
 		);
 
 		this.addSettingTab(new CMDSPACEEagleSettingTab(this.app, this));
 
+		this.registerEditorSuggest(new EagleItemSuggest(this));
+		this.registerEditorExtension(createLivePreviewImageExtension(this));
+
+		this.registerMarkdownCodeBlockProcessor('eagle', (source, el, ctx) => {
+			ctx.addChild(new EagleBlockRenderer(el, this, source));
+		});
+
+		this.registerMarkdownCodeBlockProcessor('eagle-gallery', (source, el, ctx) => {
+			ctx.addChild(new EagleGalleryRenderer(el, this, source));
+		});
+
 		this.registerMarkdownPostProcessor((el, ctx) => {
 			this.processEagleLinks(el);
+			this.processEagleThumbnails(el);
+			this.processRenderedImages(el, ctx.sourcePath);
 		});
 
 		this.registerEvent(
-			this.app.workspace.on('active-leaf-change', () => {
-				setTimeout(() => this.processActiveView(), 100);
+			this.app.vault.on('modify', (file: TAbstractFile) => {
+				this.lastModifiedFile = file.path;
 			})
 		);
 
 		this.registerEvent(
-			this.app.workspace.on('layout-change', () => {
-				setTimeout(() => this.processActiveView(), 100);
+			this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+				void this.tagSync.renameNote(oldPath, file.path);
+				void this.renameNoteFolder(file, oldPath);
 			})
 		);
 
 		this.registerEvent(
-			this.app.vault.on('modify', (file: TAbstractFile) => {
-				this.lastModifiedFile = file.path;
+			this.app.vault.on('delete', (file: TAbstractFile) => {
+				void this.tagSync.forgetNote(file.path);
+				const folderId = this.settings.noteFolders[file.path];
+				if (folderId) {
+					delete this.settings.noteFolders[file.path];
+					this.settings.createdNoteFolders = this.settings.createdNoteFolders.filter(id => id !== folderId);
+					void this.saveSettings();
+				}
 			})
 		);
 
@@ -139,7 +359,12 @@ export default class CMDSPACELinkEagle extends Plugin {
 				console.log(`[CMDS Eagle] conversionMode: ${this.settings.crossPlatformConversionMode}`);
 				console.log(`[CMDS Eagle] lastModifiedFile: ${this.lastModifiedFile}`);
 				
-				if (file && this.settings.enableCrossPlatform && this.settings.autoConvertCrossPlatformPaths) {
+				if (
+					file &&
+					this.settings.enableCrossPlatform &&
+					this.settings.autoConvertCrossPlatformPaths &&
+					this.settings.crossPlatformConversionMode === 'modify-source'
+				) {
 					if (this.lastModifiedFile !== file.path) {
 						console.log(`[CMDS Eagle] Triggering auto-conversion for: ${file.path}`);
 						setTimeout(() => this.autoConvertOnFileOpen(file), 300);
@@ -152,16 +377,18 @@ export default class CMDSPACELinkEagle extends Plugin {
 		);
 
 		this.addRibbonIcon('image', 'CMDSPACE: Eagle', () => {
-			new EagleSearchModal(this.app, this.api, this.settings).open();
+			void this.openSearchModal();
 		});
 	}
 
 	onunload(): void {
 		console.log('[CMDS Eagle] Unloading plugin');
+		this.itemIndex?.flush();
 	}
 
 	async loadSettings(): Promise<void> {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		this.settings.templates = Object.assign({}, DEFAULT_TEMPLATES, this.settings.templates);
 	}
 
 	async saveSettings(): Promise<void> {
@@ -169,126 +396,139 @@ export default class CMDSPACELinkEagle extends Plugin {
 		if (this.api) {
 			this.api.updateSettings(this.settings);
 		}
+		if (this.thumbnailCache) {
+			this.thumbnailCache.updateSettings(this.settings);
+		}
+		if (this.tagSync) {
+			this.tagSync.updateSettings(this.settings);
+		}
+		if (this.renderer) {
+			this.renderer.updateSettings(this.settings);
+		}
+		if (this.crossPlatform) {
+			this.crossPlatform.updateSettings(this.settings);
+		}
+		if (this.libraries) {
+			this.libraries.updateSettings(this.settings);
+		}
 	}
 
-	private async insertFromClipboard(editor: Editor): Promise<void> {
-		const clipboardText = await navigator.clipboard.readText();
-		const parsed = parseEagleUrl(clipboardText.trim());
+	private async openSearchModal(): Promise<void> {
+		if (!(await this.ensureLibraryForNote(this.app.workspace.getActiveFile()?.path))) return;
+		new EagleSearchModal(this.app, this.api, this.settings, this.itemIndex, this.thumbnailCache, this.renderer, this.crossPlatform).open();
+	}
 
-		if (!parsed || parsed.type !== 'item') {
-			new Notice('Clipboard does not contain a valid Eagle item URL');
-			return;
+	async ensureLibraryForNote(notePath: string | null | undefined, passive = false): Promise<boolean> {
+		if (!notePath || this.settings.libraries.length === 0) return true;
+
+		const result = await this.libraries.ensureLibraryForPath(notePath, passive);
+		if (result === 'switched') {
+			this.onLibrarySwitched();
 		}
+		return result !== 'cancelled';
+	}
 
-		const item = await this.api.getItemInfo(parsed.id);
-		if (!item) {
-			new Notice('Could not fetch item info from Eagle');
-			return;
+	async switchLibrary(library: EagleLibraryProfile): Promise<void> {
+		if (await this.libraries.switchTo(library)) {
+			this.onLibrarySwitched();
 		}
+	}
 
-		this.insertItemLink(editor, item);
-		new Notice(`Inserted link to: ${item.name}`);
+	private onLibrarySwitched(): void {
+		this.libraries.forgetOpenLibrary();
+		this.embedResolver.clear();
+		void this.itemIndex.refresh();
 	}
 
-	private async insertItemLink(editor: Editor, item: EagleItem): Promise<void> {
-		if (this.settings.insertAsEmbed) {
-			const filePath = await this.api.getOriginalFilePath(item);
-			if (filePath) {
-				const fileUrl = this.pathToFileUrl(filePath);
-				const filename = `${item.name}.${item.ext}`;
-				let output = `![${filename}](${fileUrl})`;
-				
-				if (this.settings.insertThumbnail) {
-					output += '\n\n' + this.buildMetadataCard(item);
-				}
-				
-				editor.replaceSelection(output);
-				return;
-			}
-		}
-		
-		const linkUrl = buildEagleItemUrl(item.id);
-		if (this.settings.insertThumbnail) {
-			const card = this.buildLinkCard(item);
-			editor.replaceSelection(card);
+	private async fillCurrentLibraryPath(): Promise<void> {
+		const current = this.crossPlatform.getCurrentComputer();
+		if (!current || current.eagleLibraryPath) return;
+
+		const libraryPath = await this.api.getLibraryPath();
+		if (!libraryPath) return;
+
+		current.eagleLibraryPath = libraryPath;
+		await this.saveSettings();
+		console.log(`[CMDS Eagle] Recorded library path for ${current.name}: ${libraryPath}`);
+	}
+
+	async rebuildItemIndex(): Promise<void> {
+		new Notice('Rebuilding Eagle item index...');
+		await this.itemIndex.clear();
+		const result = await this.itemIndex.refresh();
+		if (result) {
+			new Notice(`Eagle item index rebuilt (${this.itemIndex.size.toLocaleString()} items)`);
 		} else {
-			const link = this.settings.linkFormat === 'wikilink'
-				? `[[${linkUrl}|${item.name}]]`
-				: `[${item.name}](${linkUrl})`;
-			editor.replaceSelection(link);
+			new Notice('Could not rebuild item index. Make sure Eagle is running.');
 		}
 	}
 
-	private buildMetadataCard(item: EagleItem): string {
-		const linkUrl = buildEagleItemUrl(item.id);
-		const tags = item.tags
-			.filter(t => !t.startsWith('r2:') && t !== 'r2-cloud' && t !== 'cloud-upload')
-			.map(t => `#${this.normalizeTag(t)}`)
-			.join(' ');
-		const dimensions = item.width && item.height ? `${item.width}×${item.height}` : 'N/A';
-		const isUploaded = hasR2Upload(item);
-		const cloudUrl = this.api.getCloudUrl(item);
-
-		let linkSection = `[Open in Eagle](${linkUrl})`;
-		if (cloudUrl) {
-			linkSection += ` | [Cloud](${cloudUrl})`;
+	async activateBrowserView(): Promise<void> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(EAGLE_BROWSER_VIEW_TYPE)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			await rightLeaf.setViewState({ type: EAGLE_BROWSER_VIEW_TYPE, active: true });
+			leaf = rightLeaf;
 		}
-
-		return `> **${item.ext.toUpperCase()}** | ${this.formatFileSize(item.size)} | ${dimensions} | ${isUploaded ? '☁️' : '📁'} | ${tags || 'No tags'}
-> ${linkSection}`;
+		workspace.revealLeaf(leaf);
 	}
 
-	private buildLinkCard(item: EagleItem): string {
-		const linkUrl = buildEagleItemUrl(item.id);
-		const tags = item.tags
-			.filter(t => !t.startsWith('r2:') && t !== 'r2-cloud')
-			.map(t => `#${this.normalizeTag(t)}`)
-			.join(' ');
-		const dimensions = item.width && item.height ? `${item.width}×${item.height}` : 'N/A';
-		
-		const imageUrl = this.getImageUrl(item);
-		const cloudUrl = this.api.getCloudUrl(item);
-		const localUrl = this.api.getLocalThumbnailUrl(item.id);
-		const isUploaded = hasR2Upload(item);
+	private getPluginFilePath(filename: string): string {
+		const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		return `${pluginDir}/${filename}`;
+	}
 
-		let imageSection = '';
-		if (this.settings.embedImageInCard && imageUrl) {
-			imageSection = `> ![${item.name}](${imageUrl})\n>\n`;
+	private async getEagleItem(id: string): Promise<EagleItem> {
+		try {
+			const item = await this.api.getItemInfo(id);
+			this.itemIndex.upsert(item);
+			return item;
+		} catch (error) {
+			if (error instanceof ItemNotFoundError) {
+				this.itemIndex.remove(id);
+				throw error;
+			}
+			// Only an unreachable Eagle falls back to the index; any other answer means the indexed copy is wrong
+			const indexed = this.itemIndex.getItem(id);
+			if (!indexed || !(error instanceof EagleNotRunningError || error instanceof NetworkError)) throw error;
+			console.warn(`[CMDS Eagle] ${error.message}, falling back to item index`);
+			return indexed;
 		}
+	}
+
+	private async insertFromClipboard(editor: Editor): Promise<void> {
+		const clipboardText = await navigator.clipboard.readText();
+		const parsed = parseEagleUrl(clipboardText.trim());
 
-		let linkSection = `> [Open in Eagle](${linkUrl})`;
-		if (cloudUrl) {
-			linkSection += ` | [Cloud URL](${cloudUrl})`;
+		if (!parsed || parsed.type !== 'item') {
+			new Notice('Clipboard does not contain a valid Eagle item URL');
+			return;
 		}
 
-		return `> [!cmdspace-eagle] ${item.name}
-> 
-${imageSection}> | Property | Value |
-> |----------|-------|
-> | **Type** | ${item.ext.toUpperCase()} |
-> | **Size** | ${this.formatFileSize(item.size)} |
-> | **Dimensions** | ${dimensions} |
-> | **R2 Status** | ${isUploaded ? '☁️ Uploaded' : '📁 Local only'} |
-> | **Tags** | ${tags || 'None'} |
-${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSection}
+		try {
+			const item = await this.getEagleItem(parsed.id);
+			await this.insertItemLink(editor, item);
+			new Notice(`Inserted link to: ${item.name}`);
+		} catch (error) {
+			new Notice(getErrorMessage(error));
+		}
+	}
 
-`;
+	async insertItemLink(editor: Editor, item: EagleItem): Promise<void> {
+		const fileUrl = this.settings.insertAsEmbed ? await this.getItemEmbedUrl(item) : null;
+		editor.replaceSelection(this.renderer.renderInsertion(item, fileUrl));
 	}
 
-	private getImageUrl(item: EagleItem): string | null {
-		const cloudUrl = this.api.getCloudUrl(item);
-		const localUrl = this.api.getLocalThumbnailUrl(item.id);
+	private usesItemIdEmbeds(): boolean {
+		return this.settings.embedFormat === 'eagle-id';
+	}
 
-		switch (this.settings.imageDisplayMode) {
-			case 'cloud':
-				return cloudUrl || localUrl;
-			case 'local':
-				return localUrl;
-			case 'both':
-				return cloudUrl || localUrl;
-			default:
-				return cloudUrl || localUrl;
-		}
+	private async getItemEmbedUrl(item: EagleItem): Promise<string> {
+		return this.usesItemIdEmbeds()
+			? buildEagleItemUrl(item.id)
+			: this.crossPlatform.toFileUrl(await this.api.getOriginalFilePath(item));
 	}
 
 	private async refreshCurrentNoteMetadata(): Promise<void> {
@@ -308,14 +548,74 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 
 		new Notice(`Found ${eagleLinks.length} Eagle links. Refreshing...`);
 
+		const items = new Map<string, EagleItem>();
 		for (const id of eagleLinks) {
-			const item = await this.api.getItemInfo(id);
-			if (item) {
-				console.log(`Refreshed: ${item.name}`);
+			try {
+				items.set(id, await this.getEagleItem(id));
+			} catch (error) {
+				console.error(`[CMDS Eagle] Failed to refresh ${id}:`, error);
+			}
+		}
+
+		let refreshed = 0;
+		const marked = content.replace(CARD_BLOCK_REGEX, (block: string, name: CardTemplateName, id: string) => {
+			const item = items.get(id);
+			if (!item) return block;
+			const card = this.renderer.renderCard(name.toLowerCase() as CardTemplateName, item);
+			if (card !== block) refreshed++;
+			return card;
+		});
+
+		// Cards inserted before they carried markers are recognized by the default templates and get markers now
+		const lines = marked.split('\n');
+		const output: string[] = [];
+		let i = 0;
+		while (i < lines.length) {
+			const start = lines[i].match(/^<!-- eagle-(card|metadata):[A-Z0-9]+ -->$/i);
+			if (start) {
+				let end = i + 1;
+				while (end < lines.length && lines[end].toLowerCase() !== `<!-- /eagle-${start[1].toLowerCase()} -->`) end++;
+				output.push(...lines.slice(i, end + 1));
+				i = end + 1;
+				continue;
 			}
+			if (!lines[i].startsWith('>')) {
+				output.push(lines[i]);
+				i++;
+				continue;
+			}
+
+			let end = i;
+			while (end < lines.length && lines[end].startsWith('>')) end++;
+			const block = lines.slice(i, end).join('\n');
+			const card = this.rebuildMetadataCard(block, items);
+			if (card !== null && card !== block) {
+				refreshed++;
+			}
+			output.push(card ?? block);
+			i = end;
+		}
+
+		if (refreshed > 0) {
+			await this.app.vault.modify(activeFile, output.join('\n'));
 		}
 
-		new Notice('Eagle metadata refreshed');
+		const failed = eagleLinks.length - items.size;
+		new Notice(`Refreshed ${refreshed} Eagle cards${failed > 0 ? ` (${failed} items unavailable)` : ''}`);
+	}
+
+	private rebuildMetadataCard(block: string, items: Map<string, EagleItem>): string | null {
+		const idMatch = block.match(/eagle:\/\/item\/([A-Z0-9]+)/i);
+		const item = idMatch ? items.get(idMatch[1]) : undefined;
+		if (!item) return null;
+
+		if (block.startsWith('> [!cmdspace-eagle]')) {
+			return this.renderer.renderCard('card', item);
+		}
+		if (/^> \*\*[A-Z0-9]+\*\* \|/.test(block)) {
+			return this.renderer.renderCard('metadata', item);
+		}
+		return null;
 	}
 
 	private extractEagleLinks(content: string): string[] {
@@ -328,6 +628,40 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		return [...new Set(matches)];
 	}
 
+	private async syncTags(): Promise<void> {
+		const activeFile = this.app.workspace.getActiveFile();
+		if (!activeFile) {
+			new Notice('No active file');
+			return;
+		}
+
+		const content = await this.app.vault.read(activeFile);
+		const eagleLinks = this.extractEagleLinks(content);
+
+		if (eagleLinks.length === 0) {
+			new Notice('No Eagle links found in current note');
+			return;
+		}
+
+		if (!(await this.api.isConnected())) {
+			new Notice(new EagleNotRunningError(this.settings.eagleApiBaseUrl).message);
+			return;
+		}
+
+		const result = await this.tagSync.syncNote(activeFile, eagleLinks, async (item: EagleItem, conflicts: TagConflict[]) => {
+			const modal = new TagConflictModal(this.app, item.name, conflicts);
+			modal.open();
+			return modal.getResponse();
+		});
+
+		const parts = [`${result.itemsUpdated}/${eagleLinks.length} Eagle items updated`];
+		if (result.tagsAddedToNote > 0) parts.push(`${result.tagsAddedToNote} tags added to note`);
+		if (result.tagsRemovedFromNote > 0) parts.push(`${result.tagsRemovedFromNote} tags removed from note`);
+		if (result.skipped > 0) parts.push(`${result.skipped} skipped`);
+		if (result.failed > 0) parts.push(`${result.failed} failed`);
+		new Notice(`Tag sync: ${parts.join(', ')}`);
+	}
+
 	private async syncTagsToEagle(): Promise<void> {
 		const activeFile = this.app.workspace.getActiveFile();
 		if (!activeFile) {
@@ -336,7 +670,7 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		}
 
 		const metadata = this.app.metadataCache.getFileCache(activeFile);
-		const tags = metadata?.tags?.map(t => t.tag.replace('#', '')) || [];
+		const noteTags = metadata ? [...new Set((getAllTags(metadata) || []).map(t => this.denormalizeTag(t)))] : [];
 
 		const content = await this.app.vault.read(activeFile);
 		const eagleLinks = this.extractEagleLinks(content);
@@ -346,13 +680,37 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 			return;
 		}
 
+		if (noteTags.length === 0) {
+			new Notice('No tags found in current note');
+			return;
+		}
+
 		let updated = 0;
+		let failed = 0;
 		for (const id of eagleLinks) {
-			const success = await this.api.updateItem(id, { tags });
-			if (success) updated++;
+			try {
+				const item = await this.api.getItemInfo(id);
+				const existing = new Set(item.tags.map(t => this.normalizeTag(t)));
+				const added = noteTags.filter(t => !existing.has(this.normalizeTag(t)));
+				if (added.length === 0) continue;
+
+				const tags = [...item.tags, ...added];
+				await this.api.updateItem(id, { tags });
+				this.itemIndex.upsert({ ...item, tags });
+				updated++;
+			} catch (error) {
+				failed++;
+				console.error(`[CMDS Eagle] Failed to sync tags to ${id}:`, error);
+			}
 		}
 
-		new Notice(`Synced tags to ${updated}/${eagleLinks.length} Eagle items`);
+		new Notice(`Added note tags to ${updated}/${eagleLinks.length} Eagle items${failed > 0 ? ` (${failed} failed)` : ''}`);
+	}
+
+	private denormalizeTag(tag: string): string {
+		const stripped = tag.replace(/^#/, '');
+		const prefix = this.settings.tagPrefix ? `${this.settings.tagPrefix}/` : '';
+		return prefix && stripped.startsWith(prefix) ? stripped.slice(prefix.length) : stripped;
 	}
 
 	private async syncTagsFromEagle(): Promise<void> {
@@ -371,11 +729,14 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		}
 
 		const allTags = new Set<string>();
-		for (const id of eagleLinks) {
-			const item = await this.api.getItemInfo(id);
-			if (item) {
+		try {
+			for (const id of eagleLinks) {
+				const item = await this.api.getItemInfo(id);
 				item.tags.forEach(t => allTags.add(this.normalizeTag(t)));
 			}
+		} catch (error) {
+			new Notice(getErrorMessage(error));
+			return;
 		}
 
 		if (allTags.size === 0) {
@@ -407,17 +768,16 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		}
 
 		const name = `Captured from Obsidian - ${new Date().toISOString()}`;
-		const success = await this.api.addFromUrl({
-			url: clipboardText,
-			name,
-			folderId: this.settings.defaultFolder || undefined,
-		});
-
-		if (success) {
+		try {
+			await this.api.addFromUrl({
+				url: clipboardText,
+				name,
+				folderId: this.getPasteFolderId(),
+			});
 			new Notice('URL captured to Eagle');
 			editor.replaceSelection(`[Captured: ${clipboardText}]`);
-		} else {
-			new Notice('Failed to capture URL to Eagle');
+		} catch (error) {
+			new Notice(`Failed to capture URL to Eagle: ${getErrorMessage(error)}`);
 		}
 	}
 
@@ -431,8 +791,7 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 			return;
 		}
 
-		const url = `eagle://item/${match[1]}`;
-		window.open(url);
+		window.open(buildEagleItemUrl(match[1]));
 	}
 
 	private async uploadClipboardToCloud(editor: Editor): Promise<void> {
@@ -473,51 +832,24 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		}
 
 		if (itemId) {
-			const item = await this.api.getItemInfo(itemId);
-			if (!item) {
-				new Notice('Could not fetch item info from Eagle');
-				return;
-			}
+			try {
+				const item = await this.api.getItemInfo(itemId);
 
-			if (hasR2Upload(item)) {
-				const cloudUrl = this.api.getCloudUrl(item);
-				new Notice(`Already uploaded: ${cloudUrl}`);
-				if (cloudUrl) {
-					await navigator.clipboard.writeText(cloudUrl);
+				if (hasR2Upload(item)) {
+					const cloudUrl = this.api.getCloudUrl(item);
+					new Notice(`Already uploaded: ${cloudUrl}`);
+					if (cloudUrl) {
+						await navigator.clipboard.writeText(cloudUrl);
+					}
+					return;
 				}
-				return;
-			}
-
-			new Notice(`Uploading ${item.name} to cloud...`);
-			
-			const filePath = await this.api.getOriginalFilePath(item);
-			if (!filePath) {
-				new Notice('Could not get file path from Eagle');
-				return;
-			}
 
-			const filename = `${item.name}.${item.ext}`;
-			const mimeType = getMimeType(item.ext);
-			const result = await provider.upload(filePath, filename, mimeType);
-
-			if (result.success && result.publicUrl) {
-				new Notice(`Uploaded! Cloud URL copied to clipboard`);
-				await navigator.clipboard.writeText(result.publicUrl);
-				
-				const markdown = `![${filename}](${result.publicUrl})`;
-				editor.replaceSelection(markdown);
-				
-				const r2Tag = `r2:${result.key}`;
-				const newTags = [...item.tags];
-				if (!newTags.includes(r2Tag) && result.key) {
-					newTags.push(r2Tag);
+				const publicUrl = await this.uploadItemToCloud(item);
+				if (publicUrl) {
+					editor.replaceSelection(this.renderer.renderImage(`${item.name}.${item.ext}`, publicUrl, item));
 				}
-				if (!newTags.includes('cloud-upload')) {
-					newTags.push('cloud-upload');
-				}
-				await this.api.updateItem(item.id, { tags: newTags });
-			} else {
-				new Notice(`Upload failed: ${result.error}`);
+			} catch (error) {
+				new Notice(`Upload failed: ${getErrorMessage(error)}`);
 			}
 		} else if (directFilePath) {
 			const filename = directFilePath.split('/').pop() || 'image';
@@ -531,14 +863,54 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 				new Notice(`Uploaded! Cloud URL copied to clipboard`);
 				await navigator.clipboard.writeText(result.publicUrl);
 				
-				const markdown = `![${filename}](${result.publicUrl})`;
+				const markdown = this.renderer.renderImage(filename, result.publicUrl);
 				editor.replaceSelection(markdown);
 			} else {
-				new Notice(`Upload failed: ${result.error}`);
+				new Notice(`Upload failed: ${getErrorMessage(result.error)}`);
 			}
 		}
 	}
 
+	async uploadItemToCloud(item: EagleItem): Promise<string | null> {
+		const provider = this.getActiveCloudProvider();
+		if (!provider) {
+			new Notice('No cloud provider configured. Check settings.');
+			return null;
+		}
+
+		try {
+			new Notice(`Uploading ${item.name} to cloud...`);
+			const filePath = await this.api.getOriginalFilePath(item);
+
+			const filename = `${item.name}.${item.ext}`;
+			const mimeType = getMimeType(item.ext);
+			const result = await provider.upload(filePath, filename, mimeType);
+
+			if (!result.success || !result.publicUrl) {
+				new Notice(`Upload failed: ${getErrorMessage(result.error)}`);
+				return null;
+			}
+			new Notice(`Uploaded! Cloud URL copied to clipboard`);
+			await navigator.clipboard.writeText(result.publicUrl);
+
+			const r2Tag = `r2:${result.key}`;
+			const newTags = [...item.tags];
+			if (!newTags.includes(r2Tag) && result.key) {
+				newTags.push(r2Tag);
+			}
+			if (!newTags.includes('cloud-upload')) {
+				newTags.push('cloud-upload');
+			}
+			await this.api.updateItem(item.id, { tags: newTags });
+			this.itemIndex.upsert({ ...item, tags: newTags });
+
+			return result.publicUrl;
+		} catch (error) {
+			new Notice(`Upload failed: ${getErrorMessage(error)}`);
+			return null;
+		}
+	}
+
 	private async embedAndUploadToCloud(editor: Editor): Promise<void> {
 		const clipboardText = (await navigator.clipboard.readText()).trim();
 		
@@ -579,42 +951,39 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		const providerName = this.getActiveCloudProviderName();
 
 		if (itemId) {
-			const item = await this.api.getItemInfo(itemId);
-			if (!item) {
-				new Notice('Could not fetch item info from Eagle');
-				return;
-			}
+			try {
+				const item = await this.api.getItemInfo(itemId);
 
-			const filePath = await this.api.getOriginalFilePath(item);
-			if (!filePath) {
-				new Notice('Could not get file path from Eagle');
-				return;
-			}
+				const filePath = await this.api.getOriginalFilePath(item);
 
-			new Notice(`Uploading ${item.name} to ${providerName}...`);
+				new Notice(`Uploading ${item.name} to ${providerName}...`);
 			
-			const filename = `${item.name}.${item.ext}`;
-			const mimeType = getMimeType(item.ext);
-			const result = await provider.upload(filePath, filename, mimeType);
+				const filename = `${item.name}.${item.ext}`;
+				const mimeType = getMimeType(item.ext);
+				const result = await provider.upload(filePath, filename, mimeType);
 
-			if (result.success && result.publicUrl) {
-				const markdown = `![${filename}](${result.publicUrl})`;
-				editor.replaceSelection(markdown);
-				new Notice(`Embedded and uploaded to ${providerName}!`);
+				if (result.success && result.publicUrl) {
+					const markdown = this.renderer.renderImage(filename, result.publicUrl, item);
+					editor.replaceSelection(markdown);
+					new Notice(`Embedded and uploaded to ${providerName}!`);
 				
-				if (result.key) {
-					const cloudTag = `cloud:${result.key}`;
-					const newTags = [...item.tags];
-					if (!newTags.includes(cloudTag)) {
-						newTags.push(cloudTag);
-					}
-					if (!newTags.includes('cloud-upload')) {
-						newTags.push('cloud-upload');
+					if (result.key) {
+						const cloudTag = `cloud:${result.key}`;
+						const newTags = [...item.tags];
+						if (!newTags.includes(cloudTag)) {
+							newTags.push(cloudTag);
+						}
+						if (!newTags.includes('cloud-upload')) {
+							newTags.push('cloud-upload');
+						}
+						await this.api.updateItem(item.id, { tags: newTags });
+						this.itemIndex.upsert({ ...item, tags: newTags });
 					}
-					await this.api.updateItem(item.id, { tags: newTags });
+				} else {
+					new Notice(`Upload failed: ${getErrorMessage(result.error)}`);
 				}
-			} else {
-				new Notice(`Upload failed: ${result.error}`);
+			} catch (error) {
+				new Notice(`Upload failed: ${getErrorMessage(error)}`);
 			}
 		} else if (directFilePath) {
 			const filename = directFilePath.split('/').pop() || 'image';
@@ -625,108 +994,91 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 			const result = await provider.upload(directFilePath, filename, mimeType);
 
 			if (result.success && result.publicUrl) {
-				const markdown = `![${filename}](${result.publicUrl})`;
+				const markdown = this.renderer.renderImage(filename, result.publicUrl);
 				editor.replaceSelection(markdown);
 				new Notice(`Embedded and uploaded to ${providerName}!`);
 			} else {
-				new Notice(`Upload failed: ${result.error}`);
+				new Notice(`Upload failed: ${getErrorMessage(result.error)}`);
 			}
 		}
 	}
 
-	private processActiveView(): void {
-		return;
-	}
-
-	private tryConvertImagePath(img: HTMLImageElement): void {
-		const src = img.getAttribute('src');
-		if (!src) return;
-		
-		const alreadyConverted = img.getAttribute('data-original-src');
-		if (alreadyConverted) return;
-
-		console.log(`[CMDS Eagle] Checking image src: ${src}`);
+	private processEagleLinks(el: HTMLElement): void {
+		const links = el.querySelectorAll('a[href^="eagle://"]');
+		links.forEach((link) => {
+			const href = link.getAttribute('href');
+			if (href) {
+				link.addEventListener('click', (e) => {
+					e.preventDefault();
+					window.open(href);
+				});
+				link.addClass('cmdspace-eagle-link');
 
-		let extractedPath: string | null = null;
-		
-		if (src.startsWith('file://')) {
-			extractedPath = this.fullyDecodeUri(src.replace(/^file:\/\/\/?/, ''));
-		} else if (src.startsWith('app://')) {
-			const appMatch = src.match(/^app:\/\/[^/]+\/(.+)$/);
-			if (appMatch) {
-				extractedPath = this.fullyDecodeUri(appMatch[1]);
+				const parsed = parseEagleUrl(href);
+				if (parsed && parsed.type === 'item') {
+					this.hoverPreview.attach(link as HTMLElement, parsed.id);
+				}
 			}
-		}
+		});
+	}
 
-		if (!extractedPath) {
-			console.log(`[CMDS Eagle] No extractable path`);
+	private processEagleEmbeds(el: HTMLElement, sourcePath?: string): void {
+		if (sourcePath && this.settings.libraries.length > 0 && el.querySelector(EAGLE_EMBED_SELECTOR)) {
+			void this.ensureLibraryForNote(sourcePath, true).then(ready => {
+				if (ready) this.resolveEagleEmbeds(el);
+			});
 			return;
 		}
+		this.resolveEagleEmbeds(el);
+	}
 
-		console.log(`[CMDS Eagle] Extracted: ${extractedPath}`);
-
-		if (extractedPath.startsWith('Users/') && !extractedPath.startsWith('/')) {
-			extractedPath = '/' + extractedPath;
-		}
-
-		const isDifferent = this.isPathFromDifferentPlatform(extractedPath);
-		console.log(`[CMDS Eagle] Is from different platform: ${isDifferent}`);
-		
-		if (!isDifferent) return;
+	private resolveEagleEmbeds(el: HTMLElement): void {
+		this.embedResolver.processImages(el);
 
-		const convertedPath = this.convertPathForCurrentPlatform(extractedPath);
-		
-		if (convertedPath !== extractedPath) {
-			const newSrc = this.pathToFileUrl(convertedPath);
-			console.log(`[CMDS Eagle] Setting new src: ${newSrc}`);
-			
-			const newImg = document.createElement('img');
-			newImg.src = newSrc;
-			newImg.alt = img.alt;
-			newImg.className = img.className;
-			newImg.setAttribute('data-original-src', src);
-			newImg.setAttribute('data-xplatform-replaced', 'true');
-			
-			if (img.parentNode) {
-				img.parentNode.replaceChild(newImg, img);
-				console.log(`[CMDS Eagle] Image element replaced`);
+		const images = el.querySelectorAll('img');
+		images.forEach((img) => {
+			const itemId = img.dataset.eagleId ?? getLibraryItemId(img.getAttribute('data-original-src') || img.getAttribute('src') || '');
+			if (itemId) {
+				this.hoverPreview.attach(img, itemId);
 			}
-		}
+		});
 	}
 
-	private isPathFromDifferentPlatform(path: string): boolean {
-		const currentPlatform = this.getCurrentPlatform();
-		const currentUsername = this.getCurrentUsername();
-		
-		for (const computer of this.settings.computers) {
-			if (computer.platform === currentPlatform && computer.username === currentUsername) {
-				continue;
+	private processEagleThumbnails(el: HTMLElement): void {
+		const images = el.querySelectorAll('img[src*="/api/item/thumbnail?id="]');
+		images.forEach((img) => {
+			const src = img.getAttribute('src');
+			const match = src?.match(/^https?:\/\/localhost:\d+\/api\/item\/thumbnail\?id=([A-Z0-9]+)$/i);
+			if (!match) return;
+
+			const itemId = match[1];
+			const cachedUrl = this.thumbnailCache.getCachedUrl(itemId);
+			if (cachedUrl) {
+				img.setAttribute('src', cachedUrl);
 			}
-			
-			if (computer.platform === 'darwin') {
-				if (path.includes(`/Users/${computer.username}/`)) {
-					return true;
-				}
-			} else if (computer.platform === 'win32') {
-				const winPattern = new RegExp(`[A-Za-z]:[/\\\\]Users[/\\\\]${computer.username}[/\\\\]`, 'i');
-				if (winPattern.test(path)) {
-					return true;
+			this.thumbnailCache.getThumbnailUrl(itemId).then((url) => {
+				if (url && url !== img.getAttribute('src')) {
+					img.setAttribute('src', url);
 				}
-			}
-		}
-		return false;
+			});
+		});
 	}
 
-	private processEagleLinks(el: HTMLElement): void {
-		const links = el.querySelectorAll('a[href^="eagle://"]');
-		links.forEach((link) => {
-			const href = link.getAttribute('href');
-			if (href) {
-				link.addEventListener('click', (e) => {
-					e.preventDefault();
-					window.open(href);
-				});
-				link.addClass('cmdspace-eagle-link');
+	processRenderedImages(el: HTMLElement, sourcePath?: string): void {
+		this.processEagleEmbeds(el, sourcePath);
+		this.processFileMedia(el);
+		this.processFileUrls(el);
+	}
+
+	private processFileMedia(el: HTMLElement): void {
+		el.querySelectorAll<HTMLElement>('video[src^="file:"], video[poster^="file:"], iframe[src^="file:"]').forEach((mediaEl) => {
+			for (const attr of ['src', 'poster']) {
+				const url = mediaEl.getAttribute(attr);
+				const path = url ? urlToPath(url) : null;
+				if (!path) continue;
+
+				mediaEl.setAttribute(attr, toResourceUrl(this.crossPlatform.convert(path)));
+				mediaEl.setAttribute(`data-original-${attr}`, url as string);
 			}
 		});
 	}
@@ -747,49 +1099,17 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 
 		if (img.getAttribute('data-xplatform-converted')) return;
 
-		let extractedPath: string | null = null;
-		
-		if (src.startsWith('app://')) {
-			const appMatch = src.match(/^app:\/\/[^/]+\/(.+)$/);
-			if (appMatch) {
-				extractedPath = this.fullyDecodeUri(appMatch[1]);
-			}
-		} else if (src.startsWith('file://')) {
-			extractedPath = this.fullyDecodeUri(src.replace(/^file:\/\/\/?/, ''));
-		}
-
-		if (!extractedPath) return;
+		const extractedPath = urlToPath(src);
+		if (!extractedPath || !this.crossPlatform.isFromOtherComputer(extractedPath)) return;
 
-		if (extractedPath.startsWith('Users/') && !extractedPath.startsWith('/')) {
-			extractedPath = '/' + extractedPath;
-		}
-
-		if (!this.isPathFromDifferentPlatform(extractedPath)) return;
-
-		const convertedPath = this.convertPathForCurrentPlatform(extractedPath);
-		
+		const convertedPath = this.crossPlatform.convert(extractedPath);
 		if (convertedPath !== extractedPath) {
-			const newSrc = this.pathToFileUrl(convertedPath);
-			img.setAttribute('src', newSrc);
+			img.setAttribute('src', toResourceUrl(convertedPath));
 			img.setAttribute('data-xplatform-converted', 'true');
 			img.setAttribute('data-original-src', src);
 		}
 	}
 
-	private fullyDecodeUri(str: string): string {
-		let decoded = str;
-		try {
-			while (decoded.includes('%')) {
-				const next = decodeURIComponent(decoded);
-				if (next === decoded) break;
-				decoded = next;
-			}
-		} catch {
-			return str;
-		}
-		return decoded;
-	}
-
 	private normalizeTag(tag: string): string {
 		let normalized = tag.replace(/\s+/g, '-');
 		if (this.settings.tagNormalization === 'lowercase') {
@@ -826,107 +1146,220 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		}
 
 		const { files } = clipboardData;
-		if (!files || !this.allFilesAreImages(files)) return;
+		if (files && this.allFilesAreSupported(files)) {
+			await this.handleDroppedFiles(evt, Array.from(files), editor, true);
+			return;
+		}
+
+		const html = clipboardData.getData('text/html');
+		if (this.settings.importPastedHtmlImages && html && hasRemoteImages(html)) {
+			evt.preventDefault();
+			await this.importPastedHtml(html, editor);
+		}
+	}
 
-		if (this.settings.imagePasteBehavior === 'local') {
+	private async importPastedHtml(html: string, editor: Editor): Promise<void> {
+		if (!(await this.api.isConnected())) {
+			new Notice(new EagleNotRunningError(this.settings.eagleApiBaseUrl).message);
+			editor.replaceSelection(htmlToMarkdown(html));
 			return;
 		}
 
-		evt.preventDefault();
+		const pasteId = this.generatePasteId();
+		const placeholderText = `<!-- Importing pasted images into Eagle (${pasteId}) -->`;
+		editor.replaceSelection(placeholderText);
 
-		const filesCopy = Array.from(files);
+		const result = await this.htmlImporter.import(html, {
+			folderId: this.getPasteFolderId(),
+			toEmbedUrl: item => this.getItemEmbedUrl(item),
+		});
+		this.replaceTextInDocument(editor, placeholderText, result.markdown);
+		new Notice(`Imported ${result.imported} images into Eagle${result.failed > 0 ? ` (${result.failed} left as web links)` : ''}`);
+	}
 
-		if (this.settings.imagePasteBehavior === 'eagle') {
-			for (const file of filesCopy) {
-				await this.uploadFileWithProgress(file, editor);
-			}
+	private getPasteFolderId(): string | undefined {
+		const activeFile = this.app.workspace.getActiveFile();
+		return (activeFile && this.settings.noteFolders[activeFile.path]) || this.settings.defaultFolder || undefined;
+	}
+
+	private async choosePasteFolder(): Promise<string | undefined> {
+		if (!this.settings.askFolderOnPaste) return undefined;
+		const folder = await this.pickEagleFolder('Upload to Eagle folder... (Esc for default)');
+		return folder?.id;
+	}
+
+	async pickEagleFolder(placeholder?: string): Promise<EagleFolderOption | null> {
+		let folders: EagleFolderOption[];
+		try {
+			folders = await this.api.listFolderOptions();
+		} catch (error) {
+			new Notice(getErrorMessage(error));
+			return null;
+		}
+		if (folders.length === 0) {
+			new Notice('This Eagle library has no folders');
+			return null;
+		}
+
+		const modal = new EagleFolderModal(this.app, folders, placeholder);
+		modal.open();
+		return modal.getResponse();
+	}
+
+	private async createNoteFolder(): Promise<void> {
+		const activeFile = this.app.workspace.getActiveFile();
+		if (!activeFile) {
+			new Notice('No active file');
 			return;
 		}
 
-		if (this.settings.imagePasteBehavior === 'cloud') {
-			for (const file of filesCopy) {
-				await this.uploadToCloudWithProgress(file, editor);
-			}
+		try {
+			const folder = await this.api.createFolder(activeFile.basename, this.settings.defaultFolder || undefined);
+			await this.api.updateFolder(folder.id, { newDescription: `Obsidian note: ${activeFile.path}` });
+			this.settings.noteFolders[activeFile.path] = folder.id;
+			this.settings.createdNoteFolders = [...this.settings.createdNoteFolders, folder.id];
+			await this.saveSettings();
+			new Notice(`Created Eagle folder "${folder.name}". Images pasted into this note will go there.`);
+		} catch (error) {
+			new Notice(`Failed to create Eagle folder: ${getErrorMessage(error)}`);
+		}
+	}
+
+	private async chooseNoteFolder(): Promise<void> {
+		const activeFile = this.app.workspace.getActiveFile();
+		if (!activeFile) {
+			new Notice('No active file');
 			return;
 		}
 
-		const cloudProviderName = this.getActiveCloudProviderName();
-		const modal = new ImagePasteChoiceModal(this.app, cloudProviderName);
-		modal.open();
-		const response = await modal.getResponse();
+		const folder = await this.pickEagleFolder(`Eagle folder for pastes in ${activeFile.basename}...`);
+		if (!folder) return;
 
-		if (response.rememberChoice && response.choice !== 'cancel') {
-			this.settings.imagePasteBehavior = response.choice as ImagePasteBehavior;
-			await this.saveSettings();
+		this.settings.noteFolders[activeFile.path] = folder.id;
+		await this.saveSettings();
+		new Notice(`Images pasted into this note will go to "${folder.path}"`);
+	}
+
+	private async renameNoteFolder(file: TAbstractFile, oldPath: string): Promise<void> {
+		const folderId = this.settings.noteFolders[oldPath];
+		if (!folderId) return;
+
+		delete this.settings.noteFolders[oldPath];
+		this.settings.noteFolders[file.path] = folderId;
+		await this.saveSettings();
+
+		// Only folders created for the note follow its name; a picked folder may be shared
+		if (!(file instanceof TFile) || oldPath.split('/').pop() === file.name) return;
+		if (!this.settings.createdNoteFolders.includes(folderId)) return;
+		try {
+			await this.api.renameFolder(folderId, file.basename);
+		} catch (error) {
+			console.log(`[CMDS Eagle] Could not rename Eagle folder for ${file.path}:`, getErrorMessage(error));
+		}
+	}
+
+	private async insertDraggedItem(evt: DragEvent, editor: Editor, itemId: string): Promise<void> {
+		const cm = (editor as Editor & { cm?: { posAtCoords(coords: { x: number; y: number }): number | null } }).cm;
+		const offset = cm?.posAtCoords({ x: evt.clientX, y: evt.clientY });
+		if (offset !== null && offset !== undefined) {
+			editor.setCursor(editor.offsetToPos(offset));
 		}
 
-		if (response.choice === 'eagle') {
-			for (const file of filesCopy) {
-				await this.uploadFileWithProgress(file, editor);
-			}
-		} else if (response.choice === 'local') {
-			for (const file of filesCopy) {
-				await this.saveImageLocally(file, editor);
-			}
-		} else if (response.choice === 'cloud') {
-			for (const file of filesCopy) {
-				await this.uploadToCloudWithProgress(file, editor);
-			}
+		try {
+			const item = await this.getEagleItem(itemId);
+			await this.insertItemLink(editor, item);
+		} catch (error) {
+			new Notice(getErrorMessage(error));
 		}
 	}
 
 	private async handleDrop(evt: DragEvent, editor: Editor): Promise<void> {
-		const { files } = evt.dataTransfer || { files: null };
-		if (!files || !this.allFilesAreImages(files)) return;
-
-		if (this.settings.imagePasteBehavior === 'local') {
+		const draggedItemId = evt.dataTransfer?.getData(EAGLE_ITEM_DRAG_TYPE);
+		if (draggedItemId) {
+			evt.preventDefault();
+			await this.insertDraggedItem(evt, editor, draggedItemId);
 			return;
 		}
 
-		evt.preventDefault();
+		const { files } = evt.dataTransfer || { files: null };
+		if (!files || !this.allFilesAreSupported(files)) return;
 
-		const filesCopy = Array.from(files);
+		await this.handleDroppedFiles(evt, Array.from(files), editor, false);
+	}
 
-		if (this.settings.imagePasteBehavior === 'eagle') {
-			for (const file of filesCopy) {
-				await this.uploadFileWithProgress(file, editor);
+	/**
+	 * Sends each file to the destination of the first matching paste rule, and the
+	 * rest according to the global paste behavior.
+	 */
+	private async handleDroppedFiles(evt: ClipboardEvent | DragEvent, files: File[], editor: Editor, isPaste: boolean): Promise<void> {
+		const activeFile = this.app.workspace.getActiveFile();
+		const frontmatter = activeFile ? this.app.metadataCache.getFileCache(activeFile)?.frontmatter ?? null : null;
+		const routed: { file: File; rule: PasteRule }[] = [];
+		const unrouted: File[] = [];
+		for (const file of files) {
+			const rule = activeFile
+				? findPasteRule(this.settings.pasteRules, { notePath: activeFile.path, frontmatter, ext: getExtFromFilename(file.name) })
+				: null;
+			if (rule) {
+				routed.push({ file, rule });
+			} else {
+				unrouted.push(file);
 			}
-			return;
 		}
 
-		if (this.settings.imagePasteBehavior === 'cloud') {
-			for (const file of filesCopy) {
-				await this.uploadToCloudWithProgress(file, editor);
-			}
+		if (routed.length === 0 && this.settings.imagePasteBehavior === 'local') {
 			return;
 		}
 
-		const cloudProviderName = this.getActiveCloudProviderName();
-		const modal = new ImagePasteChoiceModal(this.app, cloudProviderName);
-		modal.open();
-		const response = await modal.getResponse();
+		evt.preventDefault();
 
-		if (response.rememberChoice && response.choice !== 'cancel') {
-			this.settings.imagePasteBehavior = response.choice as ImagePasteBehavior;
-			await this.saveSettings();
+		for (const { file, rule } of routed) {
+			console.log(`[CMDS Eagle] Paste rule "${rule.name}" sends ${file.name} to ${rule.destination}`);
+			const filename = rule.filenameTemplate
+				? renderFilename(rule.filenameTemplate, file.name, activeFile?.basename ?? '')
+				: undefined;
+			await this.sendImageTo(rule.destination, file, editor, toPasteOptions(rule, filename));
+		}
+		if (unrouted.length === 0) return;
+
+		let destination: PasteDestination;
+		if (this.settings.imagePasteBehavior === 'ask') {
+			const cloudProviderName = this.getActiveCloudProviderName();
+			const modal = new ImagePasteChoiceModal(this.app, cloudProviderName);
+			modal.open();
+			const response = await modal.getResponse();
+			if (response.choice === 'cancel') return;
+
+			if (response.rememberChoice) {
+				this.settings.imagePasteBehavior = response.choice as ImagePasteBehavior;
+				await this.saveSettings();
+			}
+			destination = response.choice;
+		} else {
+			destination = this.settings.imagePasteBehavior;
 		}
 
-		if (response.choice === 'eagle') {
-			for (const file of filesCopy) {
-				await this.uploadFileWithProgress(file, editor);
-			}
-		} else if (response.choice === 'local') {
-			for (const file of filesCopy) {
-				await this.saveImageLocally(file, editor);
-			}
-		} else if (response.choice === 'cloud') {
-			for (const file of filesCopy) {
-				await this.uploadToCloudWithProgress(file, editor);
-			}
+		const options: PasteOptions = {};
+		if (destination === 'eagle' && isPaste) {
+			options.folderId = await this.choosePasteFolder();
+		}
+		for (const file of unrouted) {
+			await this.sendImageTo(destination, file, editor, options);
+		}
+	}
+
+	private async sendImageTo(destination: PasteDestination, file: File, editor: Editor, options: PasteOptions): Promise<void> {
+		switch (destination) {
+			case 'eagle':
+				return this.uploadFileWithProgress(file, editor, options);
+			case 'local':
+				return this.saveImageLocally(file, editor, options.filename);
+			case 'cloud':
+				return this.uploadToCloudWithProgress(file, editor, options);
 		}
 	}
 
-	private async saveImageLocally(file: File, editor: Editor): Promise<void> {
+	private async saveImageLocally(file: File, editor: Editor, customFilename?: string): Promise<void> {
 		const activeFile = this.app.workspace.getActiveFile();
 		if (!activeFile) {
 			new Notice('No active file');
@@ -936,7 +1369,7 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		try {
 			const buffer = await file.arrayBuffer();
 			const timestamp = Date.now();
-			const filename = `${timestamp}-${file.name}`;
+			const filename = customFilename ?? `${timestamp}-${file.name}`;
 			
 			const vault = this.app.vault as unknown as { getConfig: (key: string) => string | undefined };
 			const attachmentFolder = vault.getConfig?.('attachmentFolderPath') || '';
@@ -963,9 +1396,13 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 				}
 			}
 
+			if (customFilename && await this.app.vault.adapter.exists(targetPath)) {
+				targetPath = targetPath.replace(/(\.[^./]+)?$/, `-${timestamp}$1`);
+			}
+
 			await this.app.vault.createBinary(targetPath, buffer);
 			
-			const markdownImage = `![${file.name}](${encodeURI(targetPath)})`;
+			const markdownImage = this.renderer.renderImage(customFilename ?? file.name, encodeURI(targetPath));
 			editor.replaceSelection(markdownImage);
 			new Notice(`Saved locally: ${file.name}`);
 		} catch (error) {
@@ -974,15 +1411,17 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		}
 	}
 
-	private async uploadFileWithProgress(file: File, editor: Editor): Promise<void> {
+	private async uploadFileWithProgress(file: File, editor: Editor, options: PasteOptions = {}): Promise<void> {
 		const pasteId = this.generatePasteId();
 		const placeholderText = `![Uploading ${file.name}...](${pasteId})`;
 		
 		editor.replaceSelection(placeholderText);
 
 		try {
-			const imageUrl = await this.uploadImageToEagle(file);
-			const markdownImage = `![${file.name}](${imageUrl})`;
+			const filename = options.filename ?? file.name;
+			const markdownImage = getFileKind(getExtFromFilename(filename)) === 'image'
+				? this.renderer.renderImage(filename, await this.uploadImageToEagle(file, options))
+				: await this.uploadMediaToEagle(file, options);
 			this.replaceTextInDocument(editor, placeholderText, markdownImage);
 			new Notice(`Uploaded to Eagle: ${file.name}`);
 		} catch (error) {
@@ -994,32 +1433,33 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		}
 	}
 
-	private async uploadToCloudWithProgress(file: File, editor: Editor): Promise<void> {
-		const provider = this.getActiveCloudProvider();
+	private async uploadToCloudWithProgress(file: File, editor: Editor, options: PasteOptions = {}): Promise<void> {
+		const provider = this.getActiveCloudProvider(options.cloudProvider);
 		if (!provider) {
 			new Notice('No cloud provider configured');
 			return;
 		}
 
 		const pasteId = this.generatePasteId();
-		const providerName = this.getActiveCloudProviderName();
+		const providerName = this.getActiveCloudProviderName(options.cloudProvider);
 		const placeholderText = `![Uploading to ${providerName}...](${pasteId})`;
 		
 		editor.replaceSelection(placeholderText);
 
 		try {
-			const tempPath = await this.saveToTempLocation(file);
-			const ext = getExtFromFilename(file.name);
+			const filename = options.filename ?? file.name;
+			const tempPath = await this.saveToTempLocation(file, filename);
+			const ext = getExtFromFilename(filename);
 			const mimeType = getMimeType(ext);
 			
-			const result = await provider.upload(tempPath, file.name, mimeType);
+			const result = await provider.upload(tempPath, filename, mimeType);
 			
 			if (result.success && result.publicUrl) {
-				const markdownImage = `![${file.name}](${result.publicUrl})`;
+				const markdownImage = this.renderer.renderFile(filename, result.publicUrl);
 				this.replaceTextInDocument(editor, placeholderText, markdownImage);
 				new Notice(`Uploaded to ${providerName}: ${file.name}`);
 			} else {
-				throw new Error(result.error || 'Upload failed');
+				throw result.error ?? new Error('Upload failed');
 			}
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -1030,8 +1470,7 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		}
 	}
 
-	private getActiveCloudProvider(): CloudProvider | null {
-		const providerType = this.settings.activeCloudProvider;
+	private getActiveCloudProvider(providerType: CloudProviderType = this.settings.activeCloudProvider): CloudProvider | null {
 		const config = this.settings.cloudProviders[providerType];
 		
 		if (!config || !config.enabled) {
@@ -1051,8 +1490,7 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		return createCloudProvider(config);
 	}
 
-	private getActiveCloudProviderName(): string {
-		const providerType = this.settings.activeCloudProvider;
+	private getActiveCloudProviderName(providerType: CloudProviderType = this.settings.activeCloudProvider): string {
 		const config = this.settings.cloudProviders[providerType];
 		
 		if (config?.enabled && config?.name) {
@@ -1144,28 +1582,26 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		try {
 			const connected = await this.api.isConnected();
 			if (!connected) {
-				throw new Error('Eagle is not running');
+				throw new EagleNotRunningError(this.settings.eagleApiBaseUrl);
 			}
 
 			const absolutePath = this.getAbsolutePath(file.path);
 			const filenameWithoutExt = file.basename;
 			
-			const result = await this.api.addFromPath({
+			const itemId = await this.api.addFromPath({
 				path: absolutePath,
 				name: filenameWithoutExt,
-				folderId: this.settings.defaultFolder || undefined,
+				folderId: this.getPasteFolderId(),
 			});
 
-			if (!result.success || !result.itemId) {
-				throw new Error('Failed to add image to Eagle');
+			let imageUrl = buildEagleItemUrl(itemId);
+			if (!this.usesItemIdEmbeds()) {
+				await this.delay(1000);
+				const thumbnailPath = await this.getThumbnailPathIfReady(itemId);
+				if (thumbnailPath) imageUrl = `file://${thumbnailPath}`;
 			}
-
-			await this.delay(1000);
-
-			const thumbnailPath = await this.api.getThumbnailPath(result.itemId);
-			const imageUrl = thumbnailPath ? `file://${thumbnailPath}` : `eagle://item/${result.itemId}`;
 			
-			const markdownImage = `![${file.basename}](${imageUrl})`;
+			const markdownImage = this.renderer.renderImage(file.basename, imageUrl);
 			this.replaceTextInDocument(editor, placeholderText, markdownImage);
 			
 			new Notice(`Uploaded to Eagle: ${file.name}`);
@@ -1275,7 +1711,7 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 			});
 
 			for (const pos of sortedPositions) {
-				const newMarkdown = `![${originalFile.basename}](${newUrl})`;
+				const newMarkdown = this.renderer.renderImage(originalFile.basename, newUrl);
 				const lines = content.split('\n');
 				const line = lines[pos.line];
 				if (line) {
@@ -1298,21 +1734,17 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 			return;
 		}
 
-		const item = await this.api.getItemInfo(itemId);
-		if (!item) {
-			new Notice('Could not fetch item info from Eagle');
-			return;
-		}
-
-		const filePath = await this.getEagleItemFilePath(itemId, item.name, item.ext);
-		if (filePath) {
-			const fileUrl = this.pathToFileUrl(filePath);
+		try {
+			const item = await this.getEagleItem(itemId);
+			const fileUrl = this.usesItemIdEmbeds()
+				? buildEagleItemUrl(item.id)
+				: this.crossPlatform.toFileUrl(await this.getEagleItemFilePath(itemId, item.name, item.ext));
 			const filename = `${item.name}.${item.ext}`;
-			const markdown = `![${filename}](${fileUrl})`;
+			const markdown = this.renderer.renderFile(filename, fileUrl, item);
 			editor.replaceSelection(markdown);
 			new Notice(`Embedded: ${filename}`);
-		} else {
-			new Notice('Could not get file path from Eagle');
+		} catch (error) {
+			new Notice(getErrorMessage(error));
 		}
 	}
 
@@ -1327,15 +1759,17 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 	private async handleEagleLibraryPathPaste(path: string, editor: Editor): Promise<void> {
 		const normalizedPath = path.replace(/\\/g, '/');
 		const filename = normalizedPath.split('/').pop() || 'image';
-		const fileUrl = this.pathToFileUrl(normalizedPath);
-		const markdown = `![${filename}](${fileUrl})`;
+		const idMatch = normalizedPath.match(/images\/([A-Z0-9]+)\.info\//i);
+		const fileUrl = this.usesItemIdEmbeds() && idMatch
+			? buildEagleItemUrl(idMatch[1])
+			: this.crossPlatform.toFileUrl(normalizedPath);
+		const markdown = this.renderer.renderFile(filename, fileUrl);
 		editor.replaceSelection(markdown);
 		new Notice(`Embedded: ${filename}`);
 	}
 
-	private async getEagleItemFilePath(itemId: string, name: string, ext: string): Promise<string | null> {
+	private async getEagleItemFilePath(itemId: string, name: string, ext: string): Promise<string> {
 		const thumbnailPath = await this.api.getThumbnailPath(itemId);
-		if (!thumbnailPath) return null;
 
 		const decodedPath = this.safeDecodeUri(thumbnailPath);
 		const folderPath = decodedPath.substring(0, decodedPath.lastIndexOf('/'));
@@ -1351,151 +1785,74 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		}
 	}
 
-	private pathToFileUrl(path: string): string {
-		let decodedPath = path;
-		try {
-			while (decodedPath.includes('%')) {
-				const decoded = decodeURIComponent(decodedPath);
-				if (decoded === decodedPath) break;
-				decodedPath = decoded;
-			}
-		} catch {
-			decodedPath = path;
-		}
-
-		const convertedPath = this.convertPathForCurrentPlatform(decodedPath);
-		const normalizedPath = convertedPath.replace(/\\/g, '/');
-		const encodedPath = normalizedPath.split('/').map(segment => encodeURIComponent(segment)).join('/');
+	private async addFileToEagle(file: File, options: PasteOptions): Promise<{ itemId: string; tempPath: string }> {
+		const filename = options.filename ?? file.name;
+		const tempPath = await this.saveToTempLocation(file, filename);
 		
-		if (this.getCurrentPlatform() === 'win32' && /^[A-Za-z]:/.test(normalizedPath)) {
-			// Fix: restore drive letter colon that was encoded as %3A
-			const fixedPath = encodedPath.replace(/^([A-Za-z])%3A/, '$1:');
-			return `file:///${fixedPath}`;
+		const connected = await this.api.isConnected();
+		if (!connected) {
+			throw new EagleNotRunningError(this.settings.eagleApiBaseUrl);
 		}
-		return `file://${encodedPath}`;
-	}
 
-	private getCurrentPlatform(): PlatformType {
-		return process.platform as PlatformType;
+		const filenameWithoutExt = filename.replace(/\.[^.]+$/, '');
+		const itemId = await this.api.addFromPath({
+			path: tempPath,
+			name: filenameWithoutExt,
+			tags: options.tags,
+			folderId: options.folderId ?? this.getPasteFolderId(),
+		});
+		return { itemId, tempPath };
 	}
 
-	private getCurrentUsername(): string {
-		const platform = this.getCurrentPlatform();
-		const vaultPath = this.getVaultPath();
-		
-		if (platform === 'darwin') {
-			const match = vaultPath.match(/^\/Users\/([^/]+)/);
-			if (match) return match[1];
-		} else if (platform === 'win32') {
-			const match = vaultPath.match(/^[A-Za-z]:[/\\]Users[/\\]([^/\\]+)/i);
-			if (match) return match[1];
+	private async uploadImageToEagle(file: File, options: PasteOptions = {}): Promise<string> {
+		const { itemId, tempPath } = await this.addFileToEagle(file, options);
+		if (this.usesItemIdEmbeds()) {
+			return buildEagleItemUrl(itemId);
 		}
-		
-		return '';
-	}
 
-	private findMatchingComputer(path: string): ComputerProfile | null {
-		if (!this.settings.enableCrossPlatform || this.settings.computers.length === 0) {
-			return null;
-		}
+		await this.delay(1000);
 
-		for (const computer of this.settings.computers) {
-			if (computer.platform === 'darwin') {
-				const macPattern = `/Users/${computer.username}/`;
-				if (path.includes(macPattern)) {
-					return computer;
-				}
-			} else if (computer.platform === 'win32') {
-				const winPattern = new RegExp(`^[A-Za-z]:[/\\\\]Users[/\\\\]${computer.username}[/\\\\]`, 'i');
-				if (winPattern.test(path)) {
-					return computer;
-				}
-			}
-		}
+		const thumbnailPath = await this.getThumbnailPathIfReady(itemId);
 		
-		console.log('[CMDS Eagle] No computer matched path:', path.substring(0, 50));
-		return null;
+		return thumbnailPath ? `file://${thumbnailPath}` : `file://${tempPath}`;
 	}
 
-	private convertPathForCurrentPlatform(path: string): string {
-		if (!this.settings.enableCrossPlatform || this.settings.computers.length === 0) {
-			return path;
-		}
-
-		const sourceComputer = this.findMatchingComputer(path);
-		if (!sourceComputer) {
-			console.log('[CMDS Eagle] No matching computer found for path');
-			return path;
-		}
-
-		const currentPlatform = this.getCurrentPlatform();
-		const currentUsername = this.getCurrentUsername();
-
-		const currentComputer = this.settings.computers.find(
-			c => c.platform === currentPlatform && c.username === currentUsername
-		);
-
-		if (!currentComputer || sourceComputer.id === currentComputer.id) {
-			return path;
-		}
-
-		const sourceSubPath = sourceComputer.subPath || '';
-		const currentSubPath = currentComputer.subPath || '';
-
-		console.log(`[CMDS Eagle] Converting: ${sourceComputer.platform}/${sourceComputer.username}/${sourceSubPath} → ${currentComputer.platform}/${currentComputer.username}/${currentSubPath}`);
-
-		let relativePath = '';
-		if (sourceComputer.platform === 'darwin') {
-			const sourceRoot = sourceSubPath 
-				? `/Users/${sourceComputer.username}/${sourceSubPath}/`
-				: `/Users/${sourceComputer.username}/`;
-			relativePath = path.replace(sourceRoot, '');
-		} else {
-			const subPathPart = sourceSubPath ? `[/\\\\]${sourceSubPath.replace(/[/\\]/g, '[/\\\\]')}` : '';
-			const winPattern = new RegExp(`[A-Za-z]:[/\\\\]Users[/\\\\]${sourceComputer.username}${subPathPart}[/\\\\]`, 'i');
-			relativePath = path.replace(winPattern, '').replace(/\\/g, '/');
-		}
+	private async uploadMediaToEagle(file: File, options: PasteOptions = {}): Promise<string> {
+		const filename = options.filename ?? file.name;
+		const { itemId, tempPath } = await this.addFileToEagle(file, options);
 
-		if (currentComputer.platform === 'darwin') {
-			const targetRoot = currentSubPath 
-				? `/Users/${currentComputer.username}/${currentSubPath}/`
-				: `/Users/${currentComputer.username}/`;
-			return `${targetRoot}${relativePath}`;
-		} else {
-			const targetRoot = currentSubPath 
-				? `C:/Users/${currentComputer.username}/${currentSubPath}/`
-				: `C:/Users/${currentComputer.username}/`;
-			return `${targetRoot}${relativePath}`;
-		}
-	}
+		await this.delay(1000);
 
-	private async uploadImageToEagle(file: File): Promise<string> {
-		const tempPath = await this.saveToTempLocation(file);
-		
-		const connected = await this.api.isConnected();
-		if (!connected) {
-			throw new Error('Eagle is not running');
+		// With item id embeds the resolver fills in the file and the video poster when the note renders
+		const portable = this.usesItemIdEmbeds();
+		const posterPath = portable ? null : await this.getThumbnailPathIfReady(itemId);
+		let item: EagleItem | undefined;
+		let fileUrl = portable ? buildEagleItemUrl(itemId) : `file://${tempPath}`;
+		try {
+			item = await this.api.getItemInfo(itemId);
+			if (!portable) {
+				fileUrl = this.crossPlatform.toFileUrl(await this.api.getOriginalFilePath(item));
+			}
+		} catch (error) {
+			console.log(`[CMDS Eagle] Original file for ${filename} not ready, embedding the uploaded copy:`, getErrorMessage(error));
 		}
 
-		const filenameWithoutExt = file.name.replace(/\.[^.]+$/, '');
-		const result = await this.api.addFromPath({
-			path: tempPath,
-			name: filenameWithoutExt,
-			folderId: this.settings.defaultFolder || undefined,
+		return this.renderer.renderFile(filename, fileUrl, item, {
+			posterUrl: posterPath ? this.crossPlatform.toFileUrl(posterPath) : '',
+			eagleUrl: buildEagleItemUrl(itemId),
 		});
+	}
 
-		if (!result.success || !result.itemId) {
-			throw new Error('Failed to add image to Eagle');
+	private async getThumbnailPathIfReady(itemId: string): Promise<string | null> {
+		try {
+			return await this.api.getThumbnailPath(itemId);
+		} catch (error) {
+			if (!(error instanceof ItemNotFoundError)) throw error;
+			return null;
 		}
-
-		await this.delay(1000);
-
-		const thumbnailPath = await this.api.getThumbnailPath(result.itemId);
-		
-		return thumbnailPath ? `file://${thumbnailPath}` : `file://${tempPath}`;
 	}
 
-	private async saveToTempLocation(file: File): Promise<string> {
+	private async saveToTempLocation(file: File, name: string = file.name): Promise<string> {
 		const tempDir = '.eagle-temp';
 		const tempDirPath = `${tempDir}`;
 
@@ -1506,7 +1863,7 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		}
 
 		const timestamp = Date.now();
-		const filename = `${timestamp}-${file.name}`;
+		const filename = `${timestamp}-${name}`;
 		const tempFilePath = `${tempDirPath}/${filename}`;
 
 		const buffer = await file.arrayBuffer();
@@ -1537,7 +1894,7 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		return new Promise(resolve => setTimeout(resolve, ms));
 	}
 
-	private allFilesAreImages(files: FileList): boolean {
+	private allFilesAreSupported(files: FileList): boolean {
 		if (!files || files.length === 0) return false;
 		
 		const imageTypes = [
@@ -1553,15 +1910,29 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 			'image/heif',
 			'image/avif',
 		];
+		const otherExtensions: readonly string[] = [...SUPPORTED_VIDEO_EXTENSIONS, ...SUPPORTED_DOCUMENT_EXTENSIONS];
 		
 		for (const file of Array.from(files)) {
-			if (!imageTypes.includes(file.type)) {
+			if (!imageTypes.includes(file.type) && !otherExtensions.includes(getExtFromFilename(file.name))) {
 				return false;
 			}
 		}
 		return true;
 	}
 
+	private async undoEmbedMigration(): Promise<void> {
+		const entry = this.embedMigration.getLastEntry();
+		if (!entry) {
+			new Notice('No embed migration to undo');
+			return;
+		}
+
+		const { reverted, missing } = await this.embedMigration.undo(entry);
+		const date = new Date(entry.createdAt).toLocaleString();
+		new Notice(`Reverted ${reverted}/${countChanges(entry.files)} embeds from the migration on ${date}` +
+			(missing > 0 ? ` (${missing} were edited since and left unchanged)` : ''));
+	}
+
 	private async convertCrossPlatformPaths(): Promise<void> {
 		if (!this.settings.enableCrossPlatform) {
 			new Notice('Cross-platform sync is disabled in settings');
@@ -1575,27 +1946,7 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		}
 
 		const content = await this.app.vault.read(activeFile);
-		let newContent = content;
-		let convertedCount = 0;
-
-		const fileUrlRegex = /!\[([^\]]*)\]\((file:\/\/[^)]+)\)/g;
-		let match;
-		
-		while ((match = fileUrlRegex.exec(content)) !== null) {
-			const originalUrl = match[2];
-			let filePath = this.fullyDecodeUri(originalUrl.replace(/^file:\/\/\/?/, ''));
-			
-			if (filePath.startsWith('Users/') && !filePath.startsWith('/')) {
-				filePath = '/' + filePath;
-			}
-
-			if (this.isPathFromDifferentPlatform(filePath)) {
-				const convertedPath = this.convertPathForCurrentPlatform(filePath);
-				const newUrl = this.pathToFileUrl(convertedPath);
-				newContent = newContent.replace(originalUrl, newUrl);
-				convertedCount++;
-			}
-		}
+		const { newContent, convertedCount } = this.convertFileUrlsInContent(content);
 
 		if (convertedCount > 0) {
 			await this.app.vault.modify(activeFile, newContent);
@@ -1605,166 +1956,34 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		}
 	}
 
-	private async autoConvertOnFileOpen(file: TFile): Promise<void> {
-		const content = await this.app.vault.read(file);
+	private convertFileUrlsInContent(content: string): { newContent: string; convertedCount: number } {
 		let newContent = content;
 		let convertedCount = 0;
 
 		const fileUrlRegex = /!\[([^\]]*)\]\((file:\/\/[^)]+)\)/g;
 		let match;
-		
 		while ((match = fileUrlRegex.exec(content)) !== null) {
 			const originalUrl = match[2];
-			let filePath = this.fullyDecodeUri(originalUrl.replace(/^file:\/\/\/?/, ''));
-			
-			if (filePath.startsWith('Users/') && !filePath.startsWith('/')) {
-				filePath = '/' + filePath;
-			}
-
-			if (this.isPathFromDifferentPlatform(filePath)) {
-				const convertedPath = this.convertPathForCurrentPlatform(filePath);
-				const newUrl = this.pathToFileUrl(convertedPath);
-				newContent = newContent.replace(originalUrl, newUrl);
-				convertedCount++;
-			}
-		}
-
-		if (convertedCount > 0) {
-			await this.app.vault.modify(file, newContent);
-			new Notice(`Auto-converted ${convertedCount} cross-platform paths`);
-		}
-	}
-
-	private async convertCrossPlatformRenderOnly(): Promise<void> {
-		if (!this.settings.enableCrossPlatform) {
-			new Notice('Cross-platform sync is disabled in settings');
-			return;
-		}
-
-		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!view) {
-			new Notice('No active markdown view');
-			return;
-		}
-
-		const allContainers = [
-			view.contentEl,
-			view.containerEl,
-			document.querySelector('.workspace-leaf.mod-active .view-content'),
-			document.querySelector('.workspace-leaf.mod-active .markdown-preview-view'),
-			document.querySelector('.workspace-leaf.mod-active .cm-content'),
-		].filter(Boolean) as HTMLElement[];
-
-		let convertedCount = 0;
-		const processedSrcs = new Set<string>();
-
-		for (const container of allContainers) {
-			const images = container.querySelectorAll('img') as NodeListOf<HTMLImageElement>;
-			console.log(`[CMDS Eagle] Found ${images.length} images in container`);
-
-			images.forEach((img) => {
-				const src = img.getAttribute('src');
-				if (!src) return;
-				if (processedSrcs.has(src)) return;
-				if (img.getAttribute('data-xplatform-converted')) return;
-
-				console.log(`[CMDS Eagle] Processing image src: ${src.substring(0, 80)}`);
-
-				let extractedPath: string | null = null;
-				
-				if (src.startsWith('app://')) {
-					const appMatch = src.match(/^app:\/\/[^/]+\/(.+)$/);
-					if (appMatch) {
-						extractedPath = this.fullyDecodeUri(appMatch[1]);
-						console.log(`[CMDS Eagle] Extracted from app://: ${extractedPath?.substring(0, 60)}`);
-					}
-				} else if (src.startsWith('file://')) {
-					extractedPath = this.fullyDecodeUri(src.replace(/^file:\/\/\/?/, ''));
-					console.log(`[CMDS Eagle] Extracted from file://: ${extractedPath?.substring(0, 60)}`);
-				}
-
-				if (!extractedPath) {
-					console.log(`[CMDS Eagle] Could not extract path from: ${src.substring(0, 50)}`);
-					return;
-				}
-
-				if (extractedPath.startsWith('Users/') && !extractedPath.startsWith('/')) {
-					extractedPath = '/' + extractedPath;
-				}
-
-				if (!this.isPathFromDifferentPlatform(extractedPath)) {
-					console.log(`[CMDS Eagle] Path not from different platform`);
-					return;
-				}
-
-				const convertedPath = this.convertPathForCurrentPlatform(extractedPath);
-				
-				if (convertedPath !== extractedPath) {
-					const newSrc = this.pathToFileUrl(convertedPath);
-					console.log(`[CMDS Eagle] Converting: ${src.substring(0, 40)} → ${newSrc.substring(0, 40)}`);
-					
-					img.setAttribute('src', newSrc);
-					img.setAttribute('data-xplatform-converted', 'true');
-					img.setAttribute('data-original-src', src);
-					processedSrcs.add(src);
+			const filePath = urlToPath(originalUrl);
+			if (filePath && this.crossPlatform.isFromOtherComputer(filePath)) {
+				const newUrl = this.crossPlatform.toFileUrl(filePath);
+				if (newUrl !== originalUrl) {
+					newContent = newContent.replace(originalUrl, newUrl);
 					convertedCount++;
 				}
-			});
+			}
 		}
 
-		if (convertedCount > 0) {
-			new Notice(`Render-only: converted ${convertedCount} image paths (source unchanged)`);
-		} else {
-			new Notice('No cross-platform paths found to convert');
-		}
+		return { newContent, convertedCount };
 	}
 
-	private async autoConvertRenderOnlyOnFileOpen(): Promise<void> {
-		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!view) return;
-
-		const contentEl = view.contentEl;
-		const images = contentEl.querySelectorAll('img') as NodeListOf<HTMLImageElement>;
-		let convertedCount = 0;
-
-		images.forEach((img) => {
-			const src = img.getAttribute('src');
-			if (!src) return;
-
-			if (img.getAttribute('data-xplatform-converted')) return;
-
-			let extractedPath: string | null = null;
-			
-			if (src.startsWith('app://')) {
-				const appMatch = src.match(/^app:\/\/[^/]+\/(.+)$/);
-				if (appMatch) {
-					extractedPath = this.fullyDecodeUri(appMatch[1]);
-				}
-			} else if (src.startsWith('file://')) {
-				extractedPath = this.fullyDecodeUri(src.replace(/^file:\/\/\/?/, ''));
-			}
-
-			if (!extractedPath) return;
-
-			if (extractedPath.startsWith('Users/') && !extractedPath.startsWith('/')) {
-				extractedPath = '/' + extractedPath;
-			}
-
-			if (!this.isPathFromDifferentPlatform(extractedPath)) return;
-
-			const convertedPath = this.convertPathForCurrentPlatform(extractedPath);
-			
-			if (convertedPath !== extractedPath) {
-				const newSrc = this.pathToFileUrl(convertedPath);
-				img.setAttribute('src', newSrc);
-				img.setAttribute('data-xplatform-converted', 'true');
-				img.setAttribute('data-original-src', src);
-				convertedCount++;
-			}
-		});
+	private async autoConvertOnFileOpen(file: TFile): Promise<void> {
+		const content = await this.app.vault.read(file);
+		const { newContent, convertedCount } = this.convertFileUrlsInContent(content);
 
 		if (convertedCount > 0) {
-			console.log(`[CMDS Eagle] Auto render-only: converted ${convertedCount} paths`);
+			await this.app.vault.modify(file, newContent);
+			new Notice(`Auto-converted ${convertedCount} cross-platform paths`);
 		}
 	}
 
@@ -1799,19 +2018,25 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 			});
 		}
 		
-		const localhostRegex = /!\[([^\]]*)\]\((https?:\/\/localhost:\d+\/api\/item\/thumbnail\?id=([A-Z0-9]+))\)/gi;
-		while ((match = localhostRegex.exec(content)) !== null) {
-			const itemId = match[3];
-			const item = await this.api.getItemInfo(itemId);
-			if (item) {
-				const filePath = await this.api.getOriginalFilePath(item);
-				if (filePath) {
+		let unresolved = 0;
+		const itemRegexes = [
+			/!\[([^\]]*)\]\((https?:\/\/localhost:\d+\/api\/item\/thumbnail\?id=([A-Z0-9]+))\)/gi,
+			/!\[([^\]]*)\]\((eagle:\/\/item\/([A-Z0-9]+))\)/gi,
+		];
+		for (const itemRegex of itemRegexes) {
+			while ((match = itemRegex.exec(content)) !== null) {
+				const itemId = match[3];
+				try {
+					const item = await this.getEagleItem(itemId);
 					imageMatches.push({
 						full: match[0],
 						alt: match[1],
 						url: match[2],
-						filePath: filePath,
+						filePath: await this.api.getOriginalFilePath(item),
 					});
+				} catch (error) {
+					unresolved++;
+					console.error(`[CMDS Eagle] Could not resolve file path for ${itemId}:`, error);
 				}
 			}
 		}
@@ -1829,7 +2054,7 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 		}
 
 		if (imageMatches.length === 0) {
-			new Notice('No local images found in current note');
+			new Notice(unresolved > 0 ? `Could not find ${unresolved} Eagle images from this note` : 'No local images found in current note');
 			return;
 		}
 
@@ -1864,6 +2089,7 @@ ${item.annotation ? `> | **Annotation** | ${item.annotation} |\n` : ''}${linkSec
 			await this.app.vault.modify(activeFile, newContent);
 		}
 
-		new Notice(`Uploaded ${uploaded}/${imageMatches.length} images to ${providerName}`);
+		const skipped = unresolved > 0 ? ` (${unresolved} Eagle images not found)` : '';
+		new Notice(`Uploaded ${uploaded}/${imageMatches.length} images to ${providerName}${skipped}`);
 	}
 }
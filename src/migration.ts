@@ -0,0 +1,255 @@
+import { App, TFile } from 'obsidian';
+import { EagleApiService, buildEagleItemUrl } from './api';
+import { buildLibraryUrl } from './embed-resolver';
+import { getErrorMessage } from './errors';
+import { EagleItemIndex } from './item-index';
+import { EagleItem } from './types';
+
+const JOURNAL_VERSION = 1;
+const MAX_JOURNAL_ENTRIES = 20;
+const FILE_EMBED_REGEX = /!\[([^\]]*)\]\((file:\/\/[^)]+)\)/g;
+
+export type MigrationTarget = 'eagle-id' | 'library-relative' | 'cloud';
+
+export interface EmbedChange {
+	line: number;
+	before: string;
+	after: string;
+}
+
+export interface FileMigration {
+	path: string;
+	changes: EmbedChange[];
+}
+
+export interface MigrationSkip {
+	path: string;
+	line: number;
+	url: string;
+	reason: string;
+}
+
+export interface MigrationPlan {
+	target: MigrationTarget;
+	scannedFiles: number;
+	files: FileMigration[];
+	skipped: MigrationSkip[];
+}
+
+export interface MigrationJournalEntry {
+	id: string;
+	createdAt: number;
+	target: MigrationTarget;
+	files: FileMigration[];
+}
+
+interface MigrationJournalFile {
+	version: number;
+	entries: MigrationJournalEntry[];
+}
+
+export function countChanges(files: FileMigration[]): number {
+	return files.reduce((sum, file) => sum + file.changes.length, 0);
+}
+
+export class EmbedMigration {
+	private app: App;
+	private api: EagleApiService;
+	private itemIndex: EagleItemIndex;
+	private journalPath: string;
+	private entries: MigrationJournalEntry[] = [];
+
+	constructor(app: App, api: EagleApiService, itemIndex: EagleItemIndex, journalPath: string) {
+		this.app = app;
+		this.api = api;
+		this.itemIndex = itemIndex;
+		this.journalPath = journalPath;
+	}
+
+	async load(): Promise<void> {
+		try {
+			if (!(await this.app.vault.adapter.exists(this.journalPath))) return;
+			const data = JSON.parse(await this.app.vault.adapter.read(this.journalPath)) as MigrationJournalFile;
+			if (data.version === JOURNAL_VERSION && Array.isArray(data.entries)) {
+				this.entries = data.entries;
+			}
+		} catch (error) {
+			console.error('[CMDS Eagle] Failed to load migration journal:', error);
+		}
+	}
+
+	getLastEntry(): MigrationJournalEntry | null {
+		return this.entries[this.entries.length - 1] ?? null;
+	}
+
+	async scan(target: MigrationTarget, onProgress?: (done: number, total: number) => void): Promise<MigrationPlan> {
+		const plan: MigrationPlan = { target, scannedFiles: 0, files: [], skipped: [] };
+		const markdownFiles = this.app.vault.getMarkdownFiles();
+		const items = new Map<string, EagleItem | null>();
+
+		for (const file of markdownFiles) {
+			const content = await this.app.vault.cachedRead(file);
+			plan.scannedFiles++;
+			onProgress?.(plan.scannedFiles, markdownFiles.length);
+			if (!content.includes('file://')) continue;
+
+			const changes: EmbedChange[] = [];
+			const lines = content.split('\n');
+			for (let line = 0; line < lines.length; line++) {
+				FILE_EMBED_REGEX.lastIndex = 0;
+				let match;
+				while ((match = FILE_EMBED_REGEX.exec(lines[line])) !== null) {
+					const [before, alt, url] = match;
+					const libraryPath = this.getLibraryRelativePath(url);
+					if (!libraryPath) continue;
+
+					const itemId = libraryPath.split('/')[1].replace(/\.info$/i, '');
+					const result = await this.buildTargetUrl(target, itemId, libraryPath, items);
+					if (typeof result === 'string') {
+						changes.push({ line, before, after: `![${alt}](${result})` });
+					} else {
+						plan.skipped.push({ path: file.path, line, url, reason: result.reason });
+					}
+				}
+			}
+
+			if (changes.length > 0) {
+				plan.files.push({ path: file.path, changes });
+			}
+		}
+
+		return plan;
+	}
+
+	async apply(plan: MigrationPlan): Promise<MigrationJournalEntry> {
+		const entry: MigrationJournalEntry = {
+			id: Date.now().toString(36),
+			createdAt: Date.now(),
+			target: plan.target,
+			files: [],
+		};
+
+		for (const fileMigration of plan.files) {
+			const file = this.app.vault.getAbstractFileByPath(fileMigration.path);
+			if (!(file instanceof TFile)) continue;
+
+			const applied = await this.replaceInFile(file, fileMigration.changes, false);
+			if (applied.length > 0) {
+				entry.files.push({ path: fileMigration.path, changes: applied });
+			}
+		}
+
+		if (entry.files.length > 0) {
+			this.entries.push(entry);
+			this.entries = this.entries.slice(-MAX_JOURNAL_ENTRIES);
+			await this.save();
+		}
+		return entry;
+	}
+
+	async undo(entry: MigrationJournalEntry): Promise<{ reverted: number; missing: number }> {
+		let reverted = 0;
+		let missing = 0;
+
+		for (const fileMigration of entry.files) {
+			const file = this.app.vault.getAbstractFileByPath(fileMigration.path);
+			if (!(file instanceof TFile)) {
+				missing += fileMigration.changes.length;
+				continue;
+			}
+
+			const applied = await this.replaceInFile(file, fileMigration.changes, true);
+			reverted += applied.length;
+			missing += fileMigration.changes.length - applied.length;
+		}
+
+		this.entries = this.entries.filter(e => e.id !== entry.id);
+		await this.save();
+		return { reverted, missing };
+	}
+
+	private async replaceInFile(file: TFile, changes: EmbedChange[], reverse: boolean): Promise<EmbedChange[]> {
+		const applied: EmbedChange[] = [];
+
+		await this.app.vault.process(file, (content) => {
+			const lines = content.split('\n');
+			for (const change of changes) {
+				const from = reverse ? change.after : change.before;
+				const to = reverse ? change.before : change.after;
+
+				let line = change.line;
+				if (!lines[line]?.includes(from)) {
+					line = lines.findIndex(text => text.includes(from));
+				}
+				if (line < 0) continue;
+
+				lines[line] = lines[line].replace(from, to);
+				applied.push({ ...change, line });
+			}
+			return lines.join('\n');
+		});
+
+		return applied;
+	}
+
+	private getLibraryRelativePath(url: string): string | null {
+		let path = url.replace(/^file:\/\/\/?/, '');
+		try {
+			let decoded = decodeURIComponent(path);
+			while (decoded !== path) {
+				path = decoded;
+				decoded = decodeURIComponent(path);
+			}
+		} catch {
+			// Keep the last successfully decoded value
+		}
+
+		const match = path.replace(/\\/g, '/').match(/\.library\/(images\/[A-Z0-9]+\.info\/.+)$/i);
+		return match ? match[1] : null;
+	}
+
+	private async buildTargetUrl(
+		target: MigrationTarget,
+		itemId: string,
+		libraryPath: string,
+		items: Map<string, EagleItem | null>
+	): Promise<string | { reason: string }> {
+		switch (target) {
+			case 'eagle-id':
+				return buildEagleItemUrl(itemId);
+			case 'library-relative':
+				return buildLibraryUrl(libraryPath);
+			case 'cloud': {
+				if (!items.has(itemId)) {
+					items.set(itemId, await this.findItem(itemId));
+				}
+				const item = items.get(itemId);
+				if (!item) return { reason: 'Item not found in Eagle' };
+				return this.api.getCloudUrl(item) ?? { reason: 'Not uploaded to cloud' };
+			}
+		}
+	}
+
+	private async findItem(itemId: string): Promise<EagleItem | null> {
+		const indexed = this.itemIndex.getItem(itemId);
+		if (indexed) return indexed;
+		try {
+			return await this.api.getItemInfo(itemId);
+		} catch (error) {
+			console.log(`[CMDS Eagle] Could not look up ${itemId} for migration:`, getErrorMessage(error));
+			return null;
+		}
+	}
+
+	private async save(): Promise<void> {
+		const data: MigrationJournalFile = {
+			version: JOURNAL_VERSION,
+			entries: this.entries,
+		};
+		try {
+			await this.app.vault.adapter.write(this.journalPath, JSON.stringify(data));
+		} catch (error) {
+			console.error('[CMDS Eagle] Failed to save migration journal:', error);
+		}
+	}
+}
@@ -6,52 +6,134 @@ import {
 	MarkdownView,
 	Modal,
 	Setting,
+	EventRef,
+	prepareFuzzySearch,
 } from 'obsidian';
 import { 
 	EagleItem, 
+	EagleFolderOption,
 	CMDSPACEEagleSettings, 
 	ImagePasteBehavior,
 	SearchScope,
 	SUPPORTED_IMAGE_EXTENSIONS,
 	SUPPORTED_VIDEO_EXTENSIONS,
 	SUPPORTED_DOCUMENT_EXTENSIONS,
-	ComputerProfile,
-	PlatformType,
 } from './types';
-import { EagleApiService, buildEagleItemUrl } from './api';
+import { EagleApiService, buildEagleItemUrl, flattenFolderPaths } from './api';
+import { EagleItemIndex } from './item-index';
+import { ThumbnailCache } from './thumbnail-cache';
+import { TagConflict, TagSide } from './tag-sync';
+import { EmbedRenderer } from './templates';
+import { CrossPlatformPaths } from './cross-platform';
+import { ParsedQuery, parseQuery, hasQueryFilters, matchesQuery, sortItems, toListItemsOptions } from './query';
+import { getErrorMessage } from './errors';
+import { EmbedMigration, MigrationPlan, MigrationTarget, countChanges } from './migration';
 
 type FileTypeCategory = 'images' | 'videos' | 'documents' | 'all';
+type BatchInsertLayout = 'list' | 'gallery' | 'embeds';
+
+const GALLERY_IMAGE_WIDTH = 200;
+
+let searchPreviewVisible = false;
 
 export class EagleSearchModal extends FuzzySuggestModal<EagleItem> {
 	private api: EagleApiService;
 	private settings: CMDSPACEEagleSettings;
+	private itemIndex: EagleItemIndex;
+	private thumbnailCache: ThumbnailCache;
+	private renderer: EmbedRenderer;
+	private crossPlatform: CrossPlatformPaths;
 	private allItems: EagleItem[] = [];
 	private isLoading = false;
+	private libraryName: string | null = null;
+	private indexChangedRef: EventRef | null = null;
 	private activeScopes: Set<SearchScope>;
 	private activeFileTypes: Set<string>;
 	private filterContainer: HTMLElement | null = null;
 	private libraryNameEl: HTMLElement | null = null;
+	private folderPaths = new Map<string, string>();
+	private renderedItems = new WeakMap<HTMLElement, EagleItem>();
+	private thumbnailObserver: IntersectionObserver | null = null;
+	private selectionObserver: MutationObserver | null = null;
+	private previewEl: HTMLElement | null = null;
+	private previewItemId: string | null = null;
+	private previewToggleEl: HTMLElement | null = null;
+	private isOnline = false;
+	private remoteItems: EagleItem[] = [];
+	private remoteQueryKey: string | null = null;
+	private remoteSearchTimer: number | null = null;
+	private currentResults: EagleItem[] = [];
+	private selectedItems = new Map<string, EagleItem>();
+	private lastToggledIndex: number | null = null;
+	private selectionBarEl: HTMLElement | null = null;
 
-	constructor(app: App, api: EagleApiService, settings: CMDSPACEEagleSettings) {
+	constructor(
+		app: App,
+		api: EagleApiService,
+		settings: CMDSPACEEagleSettings,
+		itemIndex: EagleItemIndex,
+		thumbnailCache: ThumbnailCache,
+		renderer: EmbedRenderer,
+		crossPlatform: CrossPlatformPaths
+	) {
 		super(app);
 		this.api = api;
 		this.settings = settings;
+		this.itemIndex = itemIndex;
+		this.thumbnailCache = thumbnailCache;
+		this.renderer = renderer;
+		this.crossPlatform = crossPlatform;
 		this.activeScopes = new Set(settings.searchScope);
 		this.activeFileTypes = new Set(settings.searchFileTypes);
-		this.setPlaceholder('Search Eagle items...');
+		this.setPlaceholder('Search Eagle items... (tag:ui -tag:draft folder:"Brand/Logos" ext:png star:>=4)');
 		this.setInstructions([
 			{ command: '↑↓', purpose: 'navigate' },
 			{ command: '↵', purpose: 'insert link' },
+			{ command: 'mod ↵', purpose: 'select' },
+			{ command: 'shift click', purpose: 'select range' },
+			{ command: 'alt p', purpose: 'toggle preview' },
 			{ command: 'esc', purpose: 'dismiss' },
 		]);
+		this.scope.register(['Mod'], 'Enter', (evt) => {
+			evt.preventDefault();
+			const selectedEl = this.resultContainerEl.querySelector('.suggestion-item.is-selected');
+			const item = selectedEl instanceof HTMLElement ? this.renderedItems.get(selectedEl) : undefined;
+			if (item) {
+				this.toggleItemSelection(item, false);
+			}
+			return false;
+		});
+		this.scope.register(['Alt'], 'p', (evt) => {
+			evt.preventDefault();
+			this.togglePreview();
+			return false;
+		});
 	}
 
 	async onOpen(): Promise<void> {
 		super.onOpen();
 		this.buildFilterUI();
+		this.buildPreviewPane();
+		this.indexChangedRef = this.itemIndex.on('changed', () => this.showIndexedItems());
 		await this.loadItems();
 	}
 
+	onClose(): void {
+		super.onClose();
+		if (this.indexChangedRef) {
+			this.itemIndex.offref(this.indexChangedRef);
+			this.indexChangedRef = null;
+		}
+		this.thumbnailObserver?.disconnect();
+		this.thumbnailObserver = null;
+		this.selectionObserver?.disconnect();
+		this.selectionObserver = null;
+		if (this.remoteSearchTimer !== null) {
+			window.clearTimeout(this.remoteSearchTimer);
+			this.remoteSearchTimer = null;
+		}
+	}
+
 	private buildFilterUI(): void {
 		const promptEl = this.modalEl.querySelector('.prompt');
 		if (!promptEl) return;
@@ -61,6 +143,15 @@ export class EagleSearchModal extends FuzzySuggestModal<EagleItem> {
 
 		const headerRow = this.filterContainer.createDiv({ cls: 'cmdspace-eagle-filter-header' });
 		this.libraryNameEl = headerRow.createSpan({ cls: 'cmdspace-eagle-library-name', text: 'Loading...' });
+		this.previewToggleEl = headerRow.createEl('button', {
+			text: 'Preview',
+			cls: `cmdspace-eagle-filter-btn ${searchPreviewVisible ? 'is-active' : ''}`,
+		});
+		this.previewToggleEl.addEventListener('click', (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.togglePreview();
+		});
 
 		const scopeRow = this.filterContainer.createDiv({ cls: 'cmdspace-eagle-filter-row' });
 		scopeRow.createSpan({ text: 'Search in:', cls: 'cmdspace-eagle-filter-label' });
@@ -79,6 +170,144 @@ export class EagleSearchModal extends FuzzySuggestModal<EagleItem> {
 		this.createTypeButton(typeButtons, 'videos', 'Videos');
 		this.createTypeButton(typeButtons, 'documents', 'Docs');
 		this.createTypeButton(typeButtons, 'all', 'All');
+
+		this.selectionBarEl = this.filterContainer.createDiv({ cls: 'cmdspace-eagle-selection-bar' });
+		this.updateSelectionBar();
+	}
+
+	private updateSelectionBar(): void {
+		const bar = this.selectionBarEl;
+		if (!bar) return;
+
+		bar.empty();
+		bar.toggleClass('is-hidden', this.selectedItems.size === 0);
+		if (this.selectedItems.size === 0) return;
+
+		bar.createSpan({ cls: 'cmdspace-eagle-filter-label', text: `${this.selectedItems.size} selected` });
+		const buttons = bar.createDiv({ cls: 'cmdspace-eagle-filter-buttons' });
+		const addButton = (label: string, onClick: () => void, cls = 'cmdspace-eagle-filter-btn') => {
+			const btn = buttons.createEl('button', { text: label, cls });
+			btn.addEventListener('mousedown', (e) => e.preventDefault());
+			btn.addEventListener('click', (e) => {
+				e.preventDefault();
+				e.stopPropagation();
+				onClick();
+			});
+		};
+		addButton('Insert as list', () => this.insertSelected('list'));
+		addButton('Insert as gallery', () => this.insertSelected('gallery'));
+		addButton('Insert as embeds', () => this.insertSelected('embeds'));
+		addButton('Clear', () => {
+			this.selectedItems.clear();
+			this.lastToggledIndex = null;
+			this.refreshSelectionState();
+		}, 'cmdspace-eagle-filter-btn mod-muted');
+	}
+
+	private toggleItemSelection(item: EagleItem, extendRange: boolean): void {
+		const index = this.currentResults.findIndex(result => result.id === item.id);
+
+		if (extendRange && this.lastToggledIndex !== null && index >= 0) {
+			const start = Math.min(this.lastToggledIndex, index);
+			const end = Math.max(this.lastToggledIndex, index);
+			this.currentResults.slice(start, end + 1).forEach(result => this.selectedItems.set(result.id, result));
+		} else if (this.selectedItems.has(item.id)) {
+			this.selectedItems.delete(item.id);
+		} else {
+			this.selectedItems.set(item.id, item);
+		}
+
+		this.lastToggledIndex = index >= 0 ? index : null;
+		this.refreshSelectionState();
+	}
+
+	private refreshSelectionState(): void {
+		this.resultContainerEl.querySelectorAll('.suggestion-item').forEach(el => {
+			const item = el instanceof HTMLElement ? this.renderedItems.get(el) : undefined;
+			const checkbox = el.querySelector('.cmdspace-eagle-select');
+			if (item && checkbox instanceof HTMLInputElement) {
+				checkbox.checked = this.selectedItems.has(item.id);
+			}
+		});
+		this.updateSelectionBar();
+	}
+
+	private insertSelected(layout: BatchInsertLayout): void {
+		const items = [...this.selectedItems.values()];
+		this.close();
+		void this.insertItems(items, layout);
+	}
+
+	private buildPreviewPane(): void {
+		this.previewEl = createDiv({ cls: 'cmdspace-eagle-preview' });
+		this.resultContainerEl.insertAdjacentElement('afterend', this.previewEl);
+		this.previewEl.toggleClass('is-hidden', !searchPreviewVisible);
+
+		this.thumbnailObserver = new IntersectionObserver((entries) => {
+			entries.forEach(entry => {
+				if (!entry.isIntersecting) return;
+				const thumbEl = entry.target as HTMLElement;
+				this.thumbnailObserver?.unobserve(thumbEl);
+				this.loadThumbnail(thumbEl);
+			});
+		}, { root: this.resultContainerEl, rootMargin: '100px' });
+
+		this.selectionObserver = new MutationObserver(() => this.updatePreview());
+		this.selectionObserver.observe(this.resultContainerEl, {
+			subtree: true,
+			childList: true,
+			attributes: true,
+			attributeFilter: ['class'],
+		});
+	}
+
+	private togglePreview(): void {
+		searchPreviewVisible = !searchPreviewVisible;
+		this.previewToggleEl?.toggleClass('is-active', searchPreviewVisible);
+		this.previewEl?.toggleClass('is-hidden', !searchPreviewVisible);
+		this.previewItemId = null;
+		this.updatePreview();
+	}
+
+	private updatePreview(): void {
+		if (!this.previewEl || !searchPreviewVisible) return;
+
+		const selectedEl = this.resultContainerEl.querySelector('.suggestion-item.is-selected');
+		const item = selectedEl instanceof HTMLElement ? this.renderedItems.get(selectedEl) : undefined;
+		if (!item) {
+			this.previewItemId = null;
+			this.previewEl.empty();
+			return;
+		}
+		if (item.id === this.previewItemId) return;
+		this.previewItemId = item.id;
+
+		const previewEl = this.previewEl;
+		previewEl.empty();
+		const imageEl = previewEl.createDiv({ cls: 'cmdspace-eagle-preview-image' });
+		imageEl.dataset.itemId = item.id;
+		this.loadThumbnail(imageEl);
+
+		const details = previewEl.createDiv({ cls: 'cmdspace-eagle-preview-details' });
+		details.createDiv({ cls: 'cmdspace-eagle-suggestion-name', text: `${item.name}.${item.ext}` });
+		const dimensions = item.width && item.height ? ` • ${item.width}×${item.height}` : '';
+		details.createDiv({
+			cls: 'cmdspace-eagle-suggestion-meta',
+			text: `${item.ext.toUpperCase()} • ${this.formatFileSize(item.size)}${dimensions}`,
+		});
+		this.renderRating(details, item);
+		this.renderFolderPath(details, item);
+		this.renderPalettes(details, item);
+		if (item.tags.length > 0) {
+			const tagsDiv = details.createDiv({ cls: 'cmdspace-eagle-suggestion-tags' });
+			item.tags.forEach(tag => tagsDiv.createSpan({ cls: 'cmdspace-eagle-tag', text: tag }));
+		}
+		if (item.annotation) {
+			details.createDiv({ cls: 'cmdspace-eagle-preview-annotation', text: item.annotation });
+		}
+		if (item.url) {
+			details.createDiv({ cls: 'cmdspace-eagle-suggestion-meta', text: item.url });
+		}
 	}
 
 	private createScopeButton(container: HTMLElement, scope: SearchScope, label: string): void {
@@ -174,27 +403,37 @@ export class EagleSearchModal extends FuzzySuggestModal<EagleItem> {
 		
 		this.isLoading = true;
 		try {
+			if (!this.itemIndex.isLoaded()) {
+				await this.itemIndex.load();
+			}
+			this.showIndexedItems();
+
 			const connected = await this.api.isConnected();
+			this.isOnline = connected;
 			if (!connected) {
-				new Notice('Eagle is not running. Please start Eagle and try again.');
-				this.close();
+				if (this.itemIndex.size === 0) {
+					new Notice('Eagle is not running. Please start Eagle and try again.');
+					this.close();
+				} else {
+					this.updateLibraryLabel('offline');
+				}
 				return;
 			}
 
-			const libraryName = await this.api.getLibraryName();
-			if (this.libraryNameEl && libraryName) {
-				this.libraryNameEl.setText(`📚 ${libraryName}`);
+			const [libraryName, folders] = await Promise.all([
+				this.api.getLibraryName(),
+				this.api.listFolders().catch(() => null),
+			]);
+			this.libraryName = libraryName;
+			if (folders) {
+				this.folderPaths = flattenFolderPaths(folders);
+				this.inputEl.dispatchEvent(new Event('input'));
 			}
-
-			this.allItems = await this.api.listItems();
-			
-			if (this.libraryNameEl) {
-				const count = this.allItems.length;
-				const libraryText = libraryName ? `📚 ${libraryName}` : '📚 Eagle';
-				this.libraryNameEl.setText(`${libraryText} (${count.toLocaleString()} items)`);
+			if (this.itemIndex.size === 0 || this.itemIndex.isStale()) {
+				this.updateLibraryLabel(this.itemIndex.size === 0 ? 'indexing' : 'refreshing');
+				await this.itemIndex.refresh();
 			}
-			
-			this.inputEl.dispatchEvent(new Event('input'));
+			this.updateLibraryLabel();
 		} catch (error) {
 			console.error('Failed to load Eagle items:', error);
 			new Notice('Failed to load Eagle items. Check console for details.');
@@ -203,12 +442,87 @@ export class EagleSearchModal extends FuzzySuggestModal<EagleItem> {
 		}
 	}
 
+	private showIndexedItems(): void {
+		this.allItems = this.itemIndex.getItems();
+		this.updateLibraryLabel(this.isLoading && this.itemIndex.isRefreshing() ? 'refreshing' : undefined);
+		this.inputEl.dispatchEvent(new Event('input'));
+	}
+
+	private updateLibraryLabel(status?: 'offline' | 'indexing' | 'refreshing'): void {
+		if (!this.libraryNameEl) return;
+
+		const libraryText = this.libraryName ? `📚 ${this.libraryName}` : '📚 Eagle';
+		const count = this.allItems.length;
+		let text = `${libraryText} (${count.toLocaleString()} items)`;
+		if (status === 'offline') {
+			text += ' · offline, showing cached items';
+		} else if (status === 'indexing') {
+			text = `${libraryText} · indexing...`;
+		} else if (status === 'refreshing') {
+			text += ' · refreshing...';
+		}
+		this.libraryNameEl.setText(text);
+	}
+
 	getItems(): EagleItem[] {
 		return this.allItems.filter(item => 
 			this.activeFileTypes.has(item.ext.toLowerCase())
 		);
 	}
 
+	getSuggestions(query: string): FuzzyMatch<EagleItem>[] {
+		const parsed = parseQuery(query);
+		const source = this.shouldSearchRemotely(parsed) ? this.getRemoteItems(parsed) : this.getItems();
+		const filtered = sortItems(source.filter(item => matchesQuery(item, parsed, this.folderPaths)), parsed);
+
+		if (!parsed.text) {
+			this.currentResults = filtered;
+			return filtered.map(item => ({ item, match: { score: 0, matches: [] } }));
+		}
+
+		const search = prepareFuzzySearch(parsed.text);
+		const results: FuzzyMatch<EagleItem>[] = [];
+		for (const item of filtered) {
+			const match = search(this.getItemText(item));
+			if (match) {
+				results.push({ item, match });
+			}
+		}
+		if (!parsed.sort) {
+			results.sort((a, b) => b.match.score - a.match.score);
+		}
+		this.currentResults = results.map(result => result.item);
+		return results;
+	}
+
+	private shouldSearchRemotely(query: ParsedQuery): boolean {
+		return this.isOnline && this.itemIndex.size === 0 && hasQueryFilters(query);
+	}
+
+	private getRemoteItems(query: ParsedQuery): EagleItem[] {
+		const options = toListItemsOptions(query, this.folderPaths);
+		const key = JSON.stringify(options);
+		if (key === this.remoteQueryKey) {
+			return this.remoteItems.filter(item => this.activeFileTypes.has(item.ext.toLowerCase()));
+		}
+
+		if (this.remoteSearchTimer !== null) {
+			window.clearTimeout(this.remoteSearchTimer);
+		}
+		this.remoteSearchTimer = window.setTimeout(async () => {
+			this.remoteSearchTimer = null;
+			try {
+				this.remoteItems = await this.api.listItems({ ...options, limit: 1000 });
+				this.remoteQueryKey = key;
+				this.inputEl.dispatchEvent(new Event('input'));
+			} catch (error) {
+				console.error('[CMDS Eagle] Remote search failed:', error);
+			}
+		}, 300);
+
+		return this.getItems();
+	}
+
 	getItemText(item: EagleItem): string {
 		const parts: string[] = [];
 		
@@ -230,8 +544,21 @@ export class EagleSearchModal extends FuzzySuggestModal<EagleItem> {
 
 	renderSuggestion(match: FuzzyMatch<EagleItem>, el: HTMLElement): void {
 		const item = match.item;
+		this.renderedItems.set(el, item);
 		
 		const container = el.createDiv({ cls: 'cmdspace-eagle-suggestion' });
+		const checkbox = container.createEl('input', { type: 'checkbox', cls: 'cmdspace-eagle-select' });
+		checkbox.checked = this.selectedItems.has(item.id);
+		checkbox.addEventListener('mousedown', (e) => e.preventDefault());
+		checkbox.addEventListener('click', (e) => {
+			e.stopPropagation();
+			this.toggleItemSelection(item, e.shiftKey);
+		});
+
+		const thumbEl = container.createDiv({ cls: 'cmdspace-eagle-suggestion-thumb' });
+		thumbEl.dataset.itemId = item.id;
+		this.thumbnailObserver?.observe(thumbEl);
+
 		const infoDiv = container.createDiv({ cls: 'cmdspace-eagle-suggestion-info' });
 		infoDiv.createDiv({ cls: 'cmdspace-eagle-suggestion-name', text: item.name });
 		
@@ -243,6 +570,12 @@ export class EagleSearchModal extends FuzzySuggestModal<EagleItem> {
 			metaDiv.createSpan({ text: ' • ' });
 			metaDiv.createSpan({ text: `${item.width}×${item.height}` });
 		}
+		if (item.star) {
+			metaDiv.createSpan({ text: ' • ' });
+			this.renderRating(metaDiv, item);
+		}
+
+		this.renderFolderPath(infoDiv, item);
 		
 		if (item.tags.length > 0) {
 			const tagsDiv = infoDiv.createDiv({ cls: 'cmdspace-eagle-suggestion-tags' });
@@ -253,187 +586,138 @@ export class EagleSearchModal extends FuzzySuggestModal<EagleItem> {
 				tagsDiv.createSpan({ cls: 'cmdspace-eagle-tag-more', text: `+${item.tags.length - 5}` });
 			}
 		}
-	}
 
-	onChooseItem(item: EagleItem, evt: MouseEvent | KeyboardEvent): void {
-		this.insertItemLink(item);
+		this.renderPalettes(container, item);
 	}
 
-	private async insertItemLink(item: EagleItem): Promise<void> {
-		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!activeView) {
-			new Notice('No active markdown editor');
-			return;
-		}
-
-		const editor = activeView.editor;
-		
-		if (this.settings.insertAsEmbed) {
-			const filePath = await this.api.getOriginalFilePath(item);
-			if (filePath) {
-				const fileUrl = this.pathToFileUrl(filePath);
-				const filename = `${item.name}.${item.ext}`;
-				let output = `![${filename}](${fileUrl})`;
-				
-				if (this.settings.insertThumbnail) {
-					output += '\n\n' + this.buildMetadataLine(item);
-				}
-				
-				editor.replaceSelection(output);
-				new Notice(`Embedded: ${item.name}`);
-				return;
-			}
+	private loadThumbnail(thumbEl: HTMLElement): void {
+		const itemId = thumbEl.dataset.itemId;
+		if (itemId) {
+			this.thumbnailCache.loadInto(thumbEl, itemId);
 		}
+	}
 
-		const linkUrl = buildEagleItemUrl(item.id);
-		let linkText: string;
-		if (this.settings.linkFormat === 'wikilink') {
-			linkText = `[[${linkUrl}|${item.name}]]`;
-		} else {
-			linkText = `[${item.name}](${linkUrl})`;
-		}
+	private renderRating(container: HTMLElement, item: EagleItem): void {
+		if (!item.star) return;
+		const star = Math.max(0, Math.min(5, item.star));
+		container.createSpan({
+			cls: 'cmdspace-eagle-rating',
+			text: '★'.repeat(star) + '☆'.repeat(5 - star),
+			attr: { 'aria-label': `${star} of 5 stars` },
+		});
+	}
 
-		if (this.settings.insertThumbnail) {
-			const card = this.buildLinkCard(item);
-			editor.replaceSelection(card);
-		} else {
-			editor.replaceSelection(linkText);
-		}
+	private renderFolderPath(container: HTMLElement, item: EagleItem): void {
+		const paths = item.folders
+			.map(id => this.folderPaths.get(id))
+			.filter((path): path is string => !!path);
+		if (paths.length === 0) return;
+		container.createDiv({ cls: 'cmdspace-eagle-suggestion-folder', text: `📁 ${paths.join(', ')}` });
+	}
 
-		new Notice(`Inserted link to: ${item.name}`);
+	private renderPalettes(container: HTMLElement, item: EagleItem): void {
+		if (!item.palettes || item.palettes.length === 0) return;
+
+		const paletteEl = container.createDiv({ cls: 'cmdspace-eagle-palette' });
+		item.palettes
+			.slice()
+			.sort((a, b) => b.ratio - a.ratio)
+			.slice(0, 5)
+			.forEach(palette => {
+				const [r, g, b] = palette.color;
+				const swatch = paletteEl.createSpan({
+					cls: 'cmdspace-eagle-swatch',
+					attr: { 'aria-label': `rgb(${r}, ${g}, ${b}) · ${Math.round(palette.ratio)}%` },
+				});
+				swatch.style.backgroundColor = `rgb(${r}, ${g}, ${b})`;
+			});
 	}
 
-	private pathToFileUrl(path: string): string {
-		let decodedPath = path;
-		try {
-			while (decodedPath.includes('%')) {
-				const decoded = decodeURIComponent(decodedPath);
-				if (decoded === decodedPath) break;
-				decodedPath = decoded;
-			}
-		} catch {
-			decodedPath = path;
+	selectSuggestion(value: FuzzyMatch<EagleItem>, evt: MouseEvent | KeyboardEvent): void {
+		if (evt instanceof MouseEvent && (evt.shiftKey || evt.metaKey || evt.ctrlKey)) {
+			this.toggleItemSelection(value.item, evt.shiftKey);
+			return;
 		}
-
-		const convertedPath = this.convertPathForCurrentPlatform(decodedPath);
-		const normalizedPath = convertedPath.replace(/\\/g, '/');
-		const encodedPath = normalizedPath.split('/').map(segment => encodeURIComponent(segment)).join('/');
-		
-		const platform = process.platform as PlatformType;
-		if (platform === 'win32' && /^[A-Za-z]:/.test(normalizedPath)) {
-			const fixedPath = encodedPath.replace(/^([A-Za-z])%3A/, '$1:');
-			return `file:///${fixedPath}`;
+		if (this.selectedItems.size > 0) {
+			this.insertSelected('embeds');
+			return;
 		}
-		return `file://${encodedPath}`;
+		super.selectSuggestion(value, evt);
 	}
 
-	private convertPathForCurrentPlatform(path: string): string {
-		if (!this.settings.enableCrossPlatform || this.settings.computers.length === 0) {
-			return path;
-		}
+	onChooseItem(item: EagleItem, evt: MouseEvent | KeyboardEvent): void {
+		this.insertItemLink(item);
+	}
 
-		const sourceComputer = this.findMatchingComputer(path);
-		if (!sourceComputer) {
-			return path;
+	private async insertItemLink(item: EagleItem): Promise<void> {
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!activeView) {
+			new Notice('No active markdown editor');
+			return;
 		}
 
-		const currentPlatform = process.platform as PlatformType;
-		const currentUsername = this.detectCurrentUsername();
-
-		const currentComputer = this.settings.computers.find(
-			c => c.platform === currentPlatform && c.username === currentUsername
-		);
-
-		if (!currentComputer || sourceComputer.id === currentComputer.id) {
-			return path;
+		let output: string;
+		try {
+			output = await this.buildItemMarkdown(item);
+		} catch (error) {
+			new Notice(getErrorMessage(error));
+			return;
 		}
 
-		let relativePath = '';
-		if (sourceComputer.platform === 'darwin') {
-			relativePath = path.replace(`/Users/${sourceComputer.username}/`, '');
-		} else {
-			const winPattern = new RegExp(`[A-Za-z]:[/\\\\]Users[/\\\\]${sourceComputer.username}[/\\\\]`, 'i');
-			relativePath = path.replace(winPattern, '').replace(/\\/g, '/');
-		}
+		activeView.editor.replaceSelection(output);
+		new Notice(this.settings.insertAsEmbed ? `Embedded: ${item.name}` : `Inserted link to: ${item.name}`);
+	}
 
-		if (currentComputer.platform === 'darwin') {
-			return `/Users/${currentComputer.username}/${relativePath}`;
-		} else {
-			return `C:/Users/${currentComputer.username}/${relativePath}`;
+	private async insertItems(items: EagleItem[], layout: BatchInsertLayout): Promise<void> {
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!activeView) {
+			new Notice('No active markdown editor');
+			return;
 		}
-	}
 
-	private findMatchingComputer(path: string): ComputerProfile | null {
-		for (const computer of this.settings.computers) {
-			if (computer.platform === 'darwin') {
-				if (path.includes(`/Users/${computer.username}/`)) {
-					return computer;
-				}
-			} else if (computer.platform === 'win32') {
-				const winPattern = new RegExp(`[A-Za-z]:[/\\\\]Users[/\\\\]${computer.username}[/\\\\]`, 'i');
-				if (winPattern.test(path)) {
-					return computer;
+		const parts: string[] = [];
+		let failed = 0;
+		for (const item of items) {
+			try {
+				switch (layout) {
+					case 'list':
+						parts.push(`- ${this.renderer.render('link', item)}`);
+						break;
+					case 'gallery': {
+						const fileUrl = await this.getEmbedUrl(item);
+						parts.push(this.renderer.renderImage(`${item.name}|${GALLERY_IMAGE_WIDTH}`, fileUrl, item));
+						break;
+					}
+					case 'embeds':
+						parts.push((await this.buildItemMarkdown(item)).trimEnd());
+						break;
 				}
+			} catch (error) {
+				failed++;
+				console.error(`[CMDS Eagle] Failed to insert ${item.id}:`, error);
 			}
 		}
-		return null;
-	}
 
-	private detectCurrentUsername(): string {
-		const adapter = this.app.vault.adapter as { basePath?: string };
-		const vaultPath = adapter.basePath || '';
-		const platform = process.platform;
-
-		if (platform === 'darwin') {
-			const match = vaultPath.match(/^\/Users\/([^/]+)/);
-			if (match) return match[1];
-		} else if (platform === 'win32') {
-			const match = vaultPath.match(/^[A-Za-z]:[/\\]Users[/\\]([^/\\]+)/i);
-			if (match) return match[1];
+		if (parts.length === 0) {
+			new Notice('Could not insert the selected items. Check console for details.');
+			return;
 		}
 
-		return '';
+		const separator = layout === 'list' ? '\n' : layout === 'gallery' ? ' ' : '\n\n';
+		activeView.editor.replaceSelection(parts.join(separator) + '\n');
+		new Notice(`Inserted ${parts.length} Eagle items${failed > 0 ? ` (${failed} failed)` : ''}`);
 	}
 
-	private buildMetadataLine(item: EagleItem): string {
-		const linkUrl = buildEagleItemUrl(item.id);
-		const tags = item.tags
-			.filter(t => !t.startsWith('r2:') && t !== 'r2-cloud' && t !== 'cloud-upload')
-			.map(t => `#${this.normalizeTag(t)}`)
-			.join(' ');
-		const dimensions = item.width && item.height ? `${item.width}×${item.height}` : '';
-
-		return `> **${item.ext.toUpperCase()}** | ${this.formatFileSize(item.size)}${dimensions ? ` | ${dimensions}` : ''} | ${tags || 'No tags'} | [Eagle](${linkUrl})`;
-	}
-
-	private buildLinkCard(item: EagleItem): string {
-		const linkUrl = buildEagleItemUrl(item.id);
-		const tags = item.tags.map(t => `#${this.normalizeTag(t)}`).join(' ');
-		const dimensions = item.width && item.height ? `${item.width}×${item.height}` : 'N/A';
-		
-		return `> [!cmdspace-eagle] ${item.name}
-> 
-> | Property | Value |
-> |----------|-------|
-> | **Type** | ${item.ext.toUpperCase()} |
-> | **Size** | ${this.formatFileSize(item.size)} |
-> | **Dimensions** | ${dimensions} |
-> | **Tags** | ${tags || 'None'} |
-> ${item.annotation ? `> **Annotation**: ${item.annotation}\n` : ''}
-> [Open in Eagle](${linkUrl})
-
-`;
+	private async buildItemMarkdown(item: EagleItem): Promise<string> {
+		const fileUrl = this.settings.insertAsEmbed ? await this.getEmbedUrl(item) : null;
+		return this.renderer.renderInsertion(item, fileUrl);
 	}
 
-	private normalizeTag(tag: string): string {
-		let normalized = tag.replace(/\s+/g, '-');
-		if (this.settings.tagNormalization === 'lowercase') {
-			normalized = normalized.toLowerCase();
+	private async getEmbedUrl(item: EagleItem): Promise<string> {
+		if (this.settings.embedFormat === 'eagle-id') {
+			return buildEagleItemUrl(item.id);
 		}
-		if (this.settings.tagPrefix) {
-			normalized = `${this.settings.tagPrefix}/${normalized}`;
-		}
-		return normalized;
+		return this.crossPlatform.toFileUrl(await this.api.getOriginalFilePath(item));
 	}
 
 	private formatFileSize(bytes: number): string {
@@ -443,31 +727,43 @@ export class EagleSearchModal extends FuzzySuggestModal<EagleItem> {
 	}
 }
 
-export class EagleFolderModal extends FuzzySuggestModal<{ id: string; name: string; path: string }> {
-	private folders: { id: string; name: string; path: string }[] = [];
-	private onSelect: (folderId: string) => void;
+export class EagleFolderModal extends FuzzySuggestModal<EagleFolderOption> {
+	private folders: EagleFolderOption[];
+	private chosen = false;
+	private resolvePromise?: (value: EagleFolderOption | null) => void;
 
-	constructor(
-		app: App,
-		folders: { id: string; name: string; path: string }[],
-		onSelect: (folderId: string) => void
-	) {
+	constructor(app: App, folders: EagleFolderOption[], placeholder = 'Select Eagle folder...') {
 		super(app);
 		this.folders = folders;
-		this.onSelect = onSelect;
-		this.setPlaceholder('Select Eagle folder...');
+		this.setPlaceholder(placeholder);
 	}
 
-	getItems(): { id: string; name: string; path: string }[] {
+	getItems(): EagleFolderOption[] {
 		return this.folders;
 	}
 
-	getItemText(item: { id: string; name: string; path: string }): string {
+	getItemText(item: EagleFolderOption): string {
 		return item.path;
 	}
 
-	onChooseItem(item: { id: string; name: string; path: string }): void {
-		this.onSelect(item.id);
+	onChooseItem(item: EagleFolderOption): void {
+		this.chosen = true;
+		this.resolvePromise?.(item);
+	}
+
+	onClose(): void {
+		// onChooseItem runs after onClose, so wait a tick before treating the close as a cancel
+		setTimeout(() => {
+			if (!this.chosen) {
+				this.resolvePromise?.(null);
+			}
+		}, 0);
+	}
+
+	getResponse(): Promise<EagleFolderOption | null> {
+		return new Promise((resolve) => {
+			this.resolvePromise = resolve;
+		});
 	}
 }
 
@@ -544,3 +840,289 @@ export class ImagePasteChoiceModal extends Modal {
 		});
 	}
 }
+
+export type LibrarySwitchChoice = 'switch' | 'keep' | 'cancel';
+
+export class LibrarySwitchModal extends Modal {
+	private noteLibrary: string;
+	private openLibrary: string;
+	private choice: LibrarySwitchChoice = 'cancel';
+	private resolvePromise?: (value: LibrarySwitchChoice) => void;
+
+	constructor(app: App, noteLibrary: string, openLibrary: string) {
+		super(app);
+		this.noteLibrary = noteLibrary;
+		this.openLibrary = openLibrary;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('cmdspace-library-switch-modal');
+
+		contentEl.createEl('h2', { text: 'Switch Eagle library?' });
+		contentEl.createEl('p', {
+			text: `This note uses the "${this.noteLibrary}" library, but Eagle has "${this.openLibrary}" open. Items and paths will not resolve until Eagle opens the right library.`,
+			cls: 'setting-item-description',
+		});
+
+		const buttonContainer = contentEl.createDiv({ cls: 'cmdspace-paste-buttons' });
+
+		const switchBtn = buttonContainer.createEl('button', { text: `Open ${this.noteLibrary}`, cls: 'mod-cta' });
+		switchBtn.addEventListener('click', () => {
+			this.choice = 'switch';
+			this.close();
+		});
+
+		const keepBtn = buttonContainer.createEl('button', { text: `Keep ${this.openLibrary}` });
+		keepBtn.addEventListener('click', () => {
+			this.choice = 'keep';
+			this.close();
+		});
+	}
+
+	onClose(): void {
+		if (this.resolvePromise) {
+			this.resolvePromise(this.choice);
+		}
+	}
+
+	getResponse(): Promise<LibrarySwitchChoice> {
+		return new Promise((resolve) => {
+			this.resolvePromise = resolve;
+		});
+	}
+}
+
+export class TagConflictModal extends Modal {
+	private itemName: string;
+	private conflicts: TagConflict[];
+	private choices = new Map<string, TagSide>();
+	private applied = false;
+	private resolvePromise?: (value: Map<string, TagSide> | null) => void;
+
+	constructor(app: App, itemName: string, conflicts: TagConflict[]) {
+		super(app);
+		this.itemName = itemName;
+		this.conflicts = conflicts;
+		conflicts.forEach(conflict => this.choices.set(conflict.key, 'note'));
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('cmdspace-tag-conflict-modal');
+
+		contentEl.createEl('h2', { text: 'Tag conflicts' });
+		contentEl.createEl('p', {
+			text: `Tags changed in both this note and "${this.itemName}" since the last sync. Choose which version to keep.`,
+			cls: 'setting-item-description',
+		});
+
+		this.conflicts.forEach(conflict => {
+			new Setting(contentEl)
+				.setName(conflict.note ?? conflict.eagle ?? conflict.key)
+				.setDesc(`Last synced: ${conflict.base ?? 'none'}`)
+				.addDropdown(dropdown => dropdown
+					.addOption('note', `Note: ${conflict.note ?? '(removed)'}`)
+					.addOption('eagle', `Eagle: ${conflict.eagle ?? '(removed)'}`)
+					.setValue('note')
+					.onChange((value: TagSide) => {
+						this.choices.set(conflict.key, value);
+					}));
+		});
+
+		const buttonContainer = contentEl.createDiv({ cls: 'cmdspace-tag-conflict-buttons' });
+
+		const applyBtn = buttonContainer.createEl('button', { text: 'Apply', cls: 'mod-cta' });
+		applyBtn.addEventListener('click', () => {
+			this.applied = true;
+			this.close();
+		});
+
+		const skipBtn = buttonContainer.createEl('button', { text: 'Skip this item' });
+		skipBtn.addEventListener('click', () => {
+			this.close();
+		});
+	}
+
+	onClose(): void {
+		if (this.resolvePromise) {
+			this.resolvePromise(this.applied ? this.choices : null);
+		}
+	}
+
+	getResponse(): Promise<Map<string, TagSide> | null> {
+		return new Promise((resolve) => {
+			this.resolvePromise = resolve;
+		});
+	}
+}
+
+export class EagleLightboxModal extends Modal {
+	private thumbnailCache: ThumbnailCache;
+	private items: EagleItem[];
+	private index: number;
+
+	constructor(app: App, thumbnailCache: ThumbnailCache, items: EagleItem[], index: number) {
+		super(app);
+		this.thumbnailCache = thumbnailCache;
+		this.items = items;
+		this.index = index;
+		this.scope.register([], 'ArrowLeft', () => {
+			this.show(this.index - 1);
+			return false;
+		});
+		this.scope.register([], 'ArrowRight', () => {
+			this.show(this.index + 1);
+			return false;
+		});
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass('cmdspace-eagle-lightbox');
+		this.show(this.index);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private show(index: number): void {
+		this.index = (index + this.items.length) % this.items.length;
+		const item = this.items[this.index];
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const imageEl = contentEl.createDiv({ cls: 'cmdspace-eagle-lightbox-image' });
+		this.thumbnailCache.loadInto(imageEl, item.id, item.name);
+
+		const footer = contentEl.createDiv({ cls: 'cmdspace-eagle-lightbox-footer' });
+		const prevBtn = footer.createEl('button', { text: '←' });
+		prevBtn.addEventListener('click', () => this.show(this.index - 1));
+
+		const caption = footer.createDiv({ cls: 'cmdspace-eagle-lightbox-caption' });
+		caption.createDiv({ cls: 'cmdspace-eagle-suggestion-name', text: item.name });
+		const dimensions = item.width && item.height ? ` • ${item.width}×${item.height}` : '';
+		caption.createDiv({
+			cls: 'cmdspace-eagle-suggestion-meta',
+			text: `${this.index + 1} / ${this.items.length} • ${item.ext.toUpperCase()}${dimensions}`,
+		});
+
+		const openBtn = footer.createEl('button', { text: 'Open in Eagle' });
+		openBtn.addEventListener('click', () => window.open(buildEagleItemUrl(item.id)));
+
+		const nextBtn = footer.createEl('button', { text: '→' });
+		nextBtn.addEventListener('click', () => this.show(this.index + 1));
+	}
+}
+
+export class EmbedMigrationModal extends Modal {
+	private migration: EmbedMigration;
+	private target: MigrationTarget = 'eagle-id';
+	private plan: MigrationPlan | null = null;
+	private reportEl: HTMLElement;
+	private applyBtn: HTMLButtonElement;
+
+	constructor(app: App, migration: EmbedMigration) {
+		super(app);
+		this.migration = migration;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass('cmdspace-migration-modal');
+
+		contentEl.createEl('h2', { text: 'Migrate Eagle embeds' });
+		contentEl.createEl('p', {
+			text: 'Rewrites file:// embeds that point into an Eagle library in every note. Scan first to review the changes; nothing is written until you apply them.',
+			cls: 'setting-item-description',
+		});
+
+		new Setting(contentEl)
+			.setName('Rewrite embeds as')
+			.addDropdown(dropdown => dropdown
+				.addOption('eagle-id', 'Eagle ID (eagle://item/ID)')
+				.addOption('library-relative', 'Library-relative path (eagle://library/images/...)')
+				.addOption('cloud', 'Cloud URL (uploaded items only)')
+				.setValue(this.target)
+				.onChange((value: MigrationTarget) => {
+					this.target = value;
+					this.plan = null;
+					this.reportEl.empty();
+					this.applyBtn.disabled = true;
+				}));
+
+		this.reportEl = contentEl.createDiv({ cls: 'cmdspace-migration-report' });
+
+		const buttonContainer = contentEl.createDiv({ cls: 'cmdspace-tag-conflict-buttons' });
+		const scanBtn = buttonContainer.createEl('button', { text: 'Scan vault (dry run)' });
+		scanBtn.addEventListener('click', async () => {
+			scanBtn.disabled = true;
+			await this.scan();
+			scanBtn.disabled = false;
+		});
+
+		this.applyBtn = buttonContainer.createEl('button', { text: 'Apply', cls: 'mod-cta' });
+		this.applyBtn.disabled = true;
+		this.applyBtn.addEventListener('click', async () => {
+			if (!this.plan) return;
+			this.applyBtn.disabled = true;
+			const entry = await this.migration.apply(this.plan);
+			new Notice(`Migrated ${countChanges(entry.files)} embeds in ${entry.files.length} notes. Run "Undo last embed migration" to revert.`);
+			this.close();
+		});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async scan(): Promise<void> {
+		this.reportEl.empty();
+		const progressEl = this.reportEl.createDiv({ cls: 'setting-item-description', text: 'Scanning...' });
+
+		try {
+			this.plan = await this.migration.scan(this.target, (done, total) => {
+				progressEl.setText(`Scanning... ${done}/${total} notes`);
+			});
+		} catch (error) {
+			progressEl.setText(`Scan failed: ${getErrorMessage(error)}`);
+			return;
+		}
+
+		this.renderReport(this.plan);
+		this.applyBtn.disabled = this.plan.files.length === 0;
+	}
+
+	private renderReport(plan: MigrationPlan): void {
+		this.reportEl.empty();
+		const changes = countChanges(plan.files);
+		this.reportEl.createDiv({
+			cls: 'cmdspace-migration-summary',
+			text: `${changes} embeds in ${plan.files.length} of ${plan.scannedFiles} notes will be rewritten` +
+				(plan.skipped.length > 0 ? `, ${plan.skipped.length} skipped` : ''),
+		});
+
+		plan.files.forEach(file => {
+			const details = this.reportEl.createEl('details', { cls: 'cmdspace-migration-file' });
+			details.createEl('summary', { text: `${file.path} (${file.changes.length})` });
+			const diffEl = details.createDiv({ cls: 'cmdspace-migration-diff' });
+			file.changes.forEach(change => {
+				diffEl.createDiv({ cls: 'cmdspace-migration-line-number', text: `Line ${change.line + 1}` });
+				diffEl.createDiv({ cls: 'cmdspace-migration-removed', text: `- ${change.before}` });
+				diffEl.createDiv({ cls: 'cmdspace-migration-added', text: `+ ${change.after}` });
+			});
+		});
+
+		if (plan.skipped.length > 0) {
+			const details = this.reportEl.createEl('details', { cls: 'cmdspace-migration-file' });
+			details.createEl('summary', { text: `Skipped (${plan.skipped.length})` });
+			const listEl = details.createDiv({ cls: 'cmdspace-migration-diff' });
+			plan.skipped.forEach(skip => {
+				listEl.createDiv({ text: `${skip.path}:${skip.line + 1} — ${skip.reason}` });
+			});
+		}
+	}
+}
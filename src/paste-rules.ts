@@ -0,0 +1,114 @@
+import { renderTemplate } from './templates';
+import { CloudProviderType, PasteRule } from './types';
+
+export interface PasteContext {
+	notePath: string;
+	frontmatter: Record<string, unknown> | null;
+	ext: string;
+}
+
+export interface PasteOptions {
+	folderId?: string;
+	tags?: string[];
+	filename?: string;
+	cloudProvider?: CloudProviderType;
+}
+
+export const FILENAME_VARIABLES = ['name', 'ext', 'note', 'date', 'time', 'timestamp'];
+
+export function globToRegExp(glob: string): RegExp {
+	let pattern = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*' && glob[i + 1] === '*') {
+			// "**/" also matches zero folders
+			if (glob[i + 2] === '/') {
+				pattern += '(?:.*/)?';
+				i += 2;
+			} else {
+				pattern += '.*';
+				i++;
+			}
+		} else if (char === '*') {
+			pattern += '[^/]*';
+		} else if (char === '?') {
+			pattern += '[^/]';
+		} else {
+			pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${pattern}$`, 'i');
+}
+
+function matchesFolder(glob: string, notePath: string): boolean {
+	const trimmed = glob.trim().replace(/^\/+/, '');
+	if (!trimmed) return true;
+	// A bare folder name matches every note inside it
+	const pattern = /[*?]/.test(trimmed) ? trimmed : `${trimmed.replace(/\/+$/, '')}/**`;
+	return globToRegExp(pattern).test(notePath);
+}
+
+function matchesFrontmatter(condition: string, frontmatter: Record<string, unknown> | null): boolean {
+	const trimmed = condition.trim();
+	if (!trimmed) return true;
+	if (!frontmatter) return false;
+
+	const match = trimmed.match(/^([^:=]+?)\s*[:=]\s*(.+)$/);
+	const key = (match ? match[1] : trimmed).trim();
+	const value = frontmatter[key];
+	if (!match) {
+		return value !== undefined && value !== null && value !== false;
+	}
+
+	const expected = match[2].trim().replace(/^["']|["']$/g, '').toLowerCase();
+	const values = Array.isArray(value) ? value : [value];
+	return values.some(v => v !== undefined && v !== null && String(v).toLowerCase() === expected);
+}
+
+function matchesFileType(fileTypes: string, ext: string): boolean {
+	const types = fileTypes.split(',').map(type => type.trim().replace(/^\./, '').toLowerCase()).filter(Boolean);
+	return types.length === 0 || types.includes(ext.toLowerCase());
+}
+
+export function findPasteRule(rules: PasteRule[], context: PasteContext): PasteRule | null {
+	return rules.find(rule =>
+		rule.enabled &&
+		matchesFolder(rule.folderGlob, context.notePath) &&
+		matchesFrontmatter(rule.frontmatter, context.frontmatter) &&
+		matchesFileType(rule.fileTypes, context.ext)
+	) ?? null;
+}
+
+export function toPasteOptions(rule: PasteRule, filename: string | undefined): PasteOptions {
+	return {
+		folderId: rule.eagleFolderId || undefined,
+		tags: rule.tags.length > 0 ? rule.tags : undefined,
+		filename,
+		cloudProvider: rule.cloudProvider || undefined,
+	};
+}
+
+function pad(value: number): string {
+	return value < 10 ? `0${value}` : String(value);
+}
+
+/** Renders a filename template such as `{{note}}-{{date}}-{{name}}`; the extension is always kept. */
+export function renderFilename(template: string, originalName: string, noteName: string, now = new Date()): string {
+	const extMatch = originalName.match(/\.([^.]+)$/);
+	const ext = extMatch ? extMatch[1] : '';
+	const name = extMatch ? originalName.slice(0, -extMatch[0].length) : originalName;
+
+	const rendered = renderTemplate(template, {
+		name,
+		ext,
+		note: noteName,
+		date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+		time: `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`,
+		timestamp: String(now.getTime()),
+	})
+		.replace(/[\\/:*?"<>|#^[\]]/g, '-')
+		.trim();
+
+	const base = (rendered || name).replace(new RegExp(`\\.${ext}$`, 'i'), '');
+	return ext ? `${base}.${ext}` : base;
+}
@@ -0,0 +1,432 @@
+import { EagleItem, EagleRule, EagleSmartFolder } from './types';
+
+export type QueryField =
+	| 'tag'
+	| 'folder'
+	| 'ext'
+	| 'name'
+	| 'annotation'
+	| 'url'
+	| 'star'
+	| 'size'
+	| 'width'
+	| 'height'
+	| 'added'
+	| 'modified'
+	| 'color';
+
+export type ComparisonOp = '=' | '>' | '>=' | '<' | '<=';
+
+export interface QueryFilter {
+	field: QueryField;
+	negate: boolean;
+	op: ComparisonOp;
+	values: string[];
+}
+
+export type QuerySortKey = 'name' | 'size' | 'added' | 'resolution';
+
+export interface ParsedQuery {
+	text: string;
+	filters: QueryFilter[];
+	sort: { key: QuerySortKey; descending: boolean } | null;
+}
+
+export interface ListItemsQueryOptions {
+	tags?: string[];
+	folders?: string[];
+	ext?: string;
+	orderBy?: string;
+}
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+	tag: 'tag',
+	tags: 'tag',
+	folder: 'folder',
+	in: 'folder',
+	ext: 'ext',
+	type: 'ext',
+	name: 'name',
+	note: 'annotation',
+	annotation: 'annotation',
+	url: 'url',
+	star: 'star',
+	rating: 'star',
+	size: 'size',
+	w: 'width',
+	width: 'width',
+	h: 'height',
+	height: 'height',
+	added: 'added',
+	modified: 'modified',
+	color: 'color',
+	colour: 'color',
+};
+
+const SORT_KEYS: Record<string, QuerySortKey> = {
+	name: 'name',
+	size: 'size',
+	added: 'added',
+	date: 'added',
+	resolution: 'resolution',
+};
+
+const EAGLE_ORDER_BY: Record<QuerySortKey, string> = {
+	name: 'NAME',
+	size: 'FILESIZE',
+	added: 'CREATEDATE',
+	resolution: 'RESOLUTION',
+};
+
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+	red: [220, 40, 40],
+	orange: [240, 140, 30],
+	yellow: [240, 220, 50],
+	green: [60, 170, 70],
+	blue: [40, 100, 220],
+	purple: [140, 60, 200],
+	pink: [240, 130, 180],
+	brown: [130, 80, 40],
+	black: [15, 15, 15],
+	white: [245, 245, 245],
+	gray: [128, 128, 128],
+	grey: [128, 128, 128],
+};
+
+const COLOR_DISTANCE_THRESHOLD = 80;
+const COLOR_MIN_RATIO = 5;
+
+const DURATION_UNITS: Record<string, number> = {
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+	m: 30 * 24 * 60 * 60 * 1000,
+	y: 365 * 24 * 60 * 60 * 1000,
+};
+
+const SIZE_UNITS: Record<string, number> = {
+	b: 1,
+	kb: 1024,
+	mb: 1024 * 1024,
+	gb: 1024 * 1024 * 1024,
+};
+
+export function parseQuery(query: string): ParsedQuery {
+	const parsed: ParsedQuery = { text: '', filters: [], sort: null };
+	const textParts: string[] = [];
+	const tokenRegex = /(-?)([a-zA-Z]+):(?:"([^"]*)"|(\S*))|"([^"]*)"|(\S+)/g;
+
+	let match;
+	while ((match = tokenRegex.exec(query)) !== null) {
+		const [token, negation, key, quotedValue, bareValue, quotedText, bareText] = match;
+
+		if (key === undefined) {
+			textParts.push(quotedText ?? bareText);
+			continue;
+		}
+
+		const rawValue = quotedValue ?? bareValue ?? '';
+		const lowerKey = key.toLowerCase();
+
+		if (lowerKey === 'sort' && !negation) {
+			const descending = rawValue.startsWith('-');
+			const sortKey = SORT_KEYS[rawValue.replace(/^-/, '').toLowerCase()];
+			if (sortKey) {
+				parsed.sort = { key: sortKey, descending };
+				continue;
+			}
+		}
+
+		const field = FIELD_ALIASES[lowerKey];
+		if (!field || rawValue === '') {
+			textParts.push(token);
+			continue;
+		}
+
+		const opMatch = rawValue.match(/^(>=|<=|>|<|=)?(.*)$/);
+		const op = (opMatch?.[1] as ComparisonOp | undefined) ?? '=';
+		const value = opMatch?.[2] ?? rawValue;
+		const values = quotedValue !== undefined ? [value] : value.split(',').filter(Boolean);
+		if (values.length === 0) {
+			textParts.push(token);
+			continue;
+		}
+
+		parsed.filters.push({ field, negate: negation === '-', op, values });
+	}
+
+	parsed.text = textParts.join(' ').trim();
+	return parsed;
+}
+
+export function hasQueryFilters(query: ParsedQuery): boolean {
+	return query.filters.length > 0 || query.sort !== null;
+}
+
+export function matchesQuery(item: EagleItem, query: ParsedQuery, folderPaths: Map<string, string>): boolean {
+	return query.filters.every(filter => matchesFilter(item, filter, folderPaths) !== filter.negate);
+}
+
+export function sortItems(items: EagleItem[], query: ParsedQuery): EagleItem[] {
+	const sort = query.sort;
+	if (!sort) return items;
+
+	const direction = sort.descending ? -1 : 1;
+	return items.slice().sort((a, b) => {
+		switch (sort.key) {
+			case 'name': return direction * a.name.localeCompare(b.name);
+			case 'size': return direction * (a.size - b.size);
+			case 'added': return direction * (a.modificationTime - b.modificationTime);
+			case 'resolution': return direction * (a.width * a.height - b.width * b.height);
+		}
+	});
+}
+
+export function toListItemsOptions(query: ParsedQuery, folderPaths: Map<string, string>): ListItemsQueryOptions {
+	const options: ListItemsQueryOptions = {};
+	const positive = query.filters.filter(filter => !filter.negate && filter.op === '=');
+
+	const tags = positive
+		.filter(filter => filter.field === 'tag' && filter.values.length === 1)
+		.map(filter => filter.values[0]);
+	if (tags.length > 0) {
+		options.tags = tags;
+	}
+
+	const folderFilters = positive.filter(filter => filter.field === 'folder');
+	if (folderFilters.length === 1 && folderFilters[0].values.length === 1) {
+		const folderIds = [...folderPaths.entries()]
+			.filter(([, path]) => matchesFolderPath(path, folderFilters[0].values[0]))
+			.map(([id]) => id);
+		if (folderIds.length === 1) {
+			options.folders = folderIds;
+		}
+	}
+
+	const extFilters = positive.filter(filter => filter.field === 'ext');
+	if (extFilters.length === 1 && extFilters[0].values.length === 1) {
+		options.ext = extFilters[0].values[0].replace(/^\./, '').toLowerCase();
+	}
+
+	if (query.sort) {
+		options.orderBy = `${query.sort.descending ? '-' : ''}${EAGLE_ORDER_BY[query.sort.key]}`;
+	}
+
+	return options;
+}
+
+export function matchesSmartFolder(item: EagleItem, smartFolder: EagleSmartFolder): boolean {
+	if (!smartFolder.conditions || smartFolder.conditions.length === 0) return false;
+	return smartFolder.conditions.every(condition => {
+		const results = condition.rules.map(rule => matchesRule(item, rule));
+		return condition.match === 'OR' ? results.some(Boolean) : results.every(Boolean);
+	});
+}
+
+function matchesRule(item: EagleItem, rule: EagleRule): boolean {
+	const actual = getRuleProperty(item, rule.property);
+	if (actual === undefined) return false;
+
+	const method = rule.method.toLowerCase();
+	const expected = rule.value;
+
+	if (Array.isArray(actual)) {
+		const values = (Array.isArray(expected) ? expected : [expected]).map(v => String(v).toLowerCase());
+		const lowerActual = actual.map(v => v.toLowerCase());
+		switch (method) {
+			case 'union':
+			case 'contain':
+				return values.some(v => lowerActual.includes(v));
+			case 'intersection':
+				return values.every(v => lowerActual.includes(v));
+			case 'identity':
+				return values.length === lowerActual.length && values.every(v => lowerActual.includes(v));
+			case 'uncontain':
+				return !values.some(v => lowerActual.includes(v));
+			case 'empty':
+				return lowerActual.length === 0;
+			case 'not-empty':
+			case 'notempty':
+				return lowerActual.length > 0;
+			default:
+				return false;
+		}
+	}
+
+	if (typeof actual === 'number') {
+		const target = Number(Array.isArray(expected) ? expected[0] : expected);
+		if (isNaN(target)) return false;
+		switch (method) {
+			case 'equal':
+			case 'is':
+				return actual === target;
+			case '>':
+			case 'greater':
+				return actual > target;
+			case '>=':
+				return actual >= target;
+			case '<':
+			case 'less':
+				return actual < target;
+			case '<=':
+				return actual <= target;
+			case 'between':
+				return Array.isArray(expected) && actual >= Number(expected[0]) && actual <= Number(expected[1]);
+			default:
+				return false;
+		}
+	}
+
+	const text = actual.toLowerCase();
+	const target = String(expected ?? '').toLowerCase();
+	switch (method) {
+		case 'contain':
+			return text.includes(target);
+		case 'uncontain':
+			return !text.includes(target);
+		case 'is':
+		case 'equal':
+			return text === target;
+		case 'isnot':
+			return text !== target;
+		case 'startwith':
+			return text.startsWith(target);
+		case 'endwith':
+			return text.endsWith(target);
+		case 'empty':
+			return text.length === 0;
+		case 'not-empty':
+		case 'notempty':
+			return text.length > 0;
+		default:
+			return false;
+	}
+}
+
+function getRuleProperty(item: EagleItem, property: string): string | string[] | number | undefined {
+	switch (property) {
+		case 'name': return item.name;
+		case 'tags': return item.tags;
+		case 'folders': return item.folders;
+		case 'annotation': return item.annotation;
+		case 'url': return item.url;
+		case 'type':
+		case 'ext': return item.ext;
+		case 'width': return item.width;
+		case 'height': return item.height;
+		case 'size':
+		case 'fileSize': return item.size;
+		case 'rating':
+		case 'star': return item.star ?? 0;
+		case 'mtime':
+		case 'modificationTime': return item.modificationTime;
+		default: return undefined;
+	}
+}
+
+function matchesFilter(item: EagleItem, filter: QueryFilter, folderPaths: Map<string, string>): boolean {
+	switch (filter.field) {
+		case 'tag': {
+			const tags = item.tags.map(tag => tag.toLowerCase());
+			return filter.values.some(value => tags.includes(value.toLowerCase()));
+		}
+		case 'folder': {
+			const paths = item.folders.map(id => folderPaths.get(id)).filter((path): path is string => !!path);
+			return filter.values.some(value => paths.some(path => matchesFolderPath(path, value)));
+		}
+		case 'ext':
+			return filter.values.some(value => item.ext.toLowerCase() === value.replace(/^\./, '').toLowerCase());
+		case 'name':
+			return containsAny(item.name, filter.values);
+		case 'annotation':
+			return containsAny(item.annotation || '', filter.values);
+		case 'url':
+			return containsAny(item.url || '', filter.values);
+		case 'star':
+			return compareNumbers(item.star ?? 0, filter.op, Number(filter.values[0]));
+		case 'width':
+			return compareNumbers(item.width, filter.op, Number(filter.values[0]));
+		case 'height':
+			return compareNumbers(item.height, filter.op, Number(filter.values[0]));
+		case 'size':
+			return compareNumbers(item.size, filter.op, parseSize(filter.values[0]));
+		case 'added':
+			return matchesDate(item.modificationTime, filter);
+		case 'modified':
+			return matchesDate(item.lastModified, filter);
+		case 'color':
+			return filter.values.some(value => matchesColor(item, value));
+	}
+}
+
+function matchesFolderPath(path: string, value: string): boolean {
+	const lowerPath = path.toLowerCase();
+	const lowerValue = value.toLowerCase().replace(/^\/+|\/+$/g, '');
+	return lowerPath === lowerValue || lowerPath.endsWith(`/${lowerValue}`);
+}
+
+function containsAny(text: string, values: string[]): boolean {
+	const lowerText = text.toLowerCase();
+	return values.some(value => lowerText.includes(value.toLowerCase()));
+}
+
+function compareNumbers(actual: number, op: ComparisonOp, expected: number): boolean {
+	if (isNaN(expected)) return false;
+	switch (op) {
+		case '=': return actual === expected;
+		case '>': return actual > expected;
+		case '>=': return actual >= expected;
+		case '<': return actual < expected;
+		case '<=': return actual <= expected;
+	}
+}
+
+function parseSize(value: string): number {
+	const match = value.toLowerCase().match(/^(\d+(?:\.\d+)?)(b|kb|mb|gb)?$/);
+	if (!match) return NaN;
+	return parseFloat(match[1]) * SIZE_UNITS[match[2] ?? 'b'];
+}
+
+function matchesDate(time: number, filter: QueryFilter): boolean {
+	if (!time) return false;
+	const value = filter.values[0].toLowerCase();
+
+	const duration = value.match(/^(\d+(?:\.\d+)?)([hdwmy])$/);
+	if (duration) {
+		const age = Date.now() - time;
+		return compareNumbers(age, filter.op, parseFloat(duration[1]) * DURATION_UNITS[duration[2]]);
+	}
+
+	const date = Date.parse(value);
+	if (isNaN(date)) return false;
+	if (filter.op === '=') {
+		return time >= date && time < date + DURATION_UNITS.d;
+	}
+	return compareNumbers(time, filter.op, date);
+}
+
+function matchesColor(item: EagleItem, value: string): boolean {
+	const target = parseColor(value);
+	if (!target || !item.palettes) return false;
+
+	return item.palettes.some(palette => {
+		if (palette.ratio < COLOR_MIN_RATIO) return false;
+		const [r, g, b] = palette.color;
+		const distance = Math.sqrt((r - target[0]) ** 2 + (g - target[1]) ** 2 + (b - target[2]) ** 2);
+		return distance <= COLOR_DISTANCE_THRESHOLD;
+	});
+}
+
+function parseColor(value: string): [number, number, number] | null {
+	const lower = value.toLowerCase();
+	if (NAMED_COLORS[lower]) return NAMED_COLORS[lower];
+
+	const hex = lower.replace(/^#/, '');
+	if (/^[0-9a-f]{3}$/.test(hex)) {
+		return [0, 1, 2].map(i => parseInt(hex[i] + hex[i], 16)) as [number, number, number];
+	}
+	if (/^[0-9a-f]{6}$/.test(hex)) {
+		return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+	}
+	return null;
+}
@@ -1,16 +1,24 @@
-import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
+import { App, PluginSettingTab, Setting, Notice, MarkdownRenderer } from 'obsidian';
 import CMDSPACELinkEagle from './main';
 import { EagleApiService } from './api';
+import { getErrorMessage } from './errors';
+import { HOME_ROOT_NAME, PLATFORM_LABELS, getCurrentPlatform, getHomePath, getLibraryName } from './cross-platform';
+import { isSameLibrary } from './libraries';
+import { FILENAME_VARIABLES } from './paste-rules';
+import { SAMPLE_ITEM, TEMPLATE_VARIABLES, TemplateName } from './templates';
 import { 
 	CloudProviderType, 
 	ImagePasteBehavior,
+	EmbedFormat,
 	SearchScope,
 	SUPPORTED_IMAGE_EXTENSIONS,
 	SUPPORTED_VIDEO_EXTENSIONS,
 	SUPPORTED_DOCUMENT_EXTENSIONS,
 	ComputerProfile,
+	DEFAULT_TEMPLATES,
 	PlatformType,
 	CrossPlatformConversionMode,
+	PasteDestination,
 } from './types';
 
 export class CMDSPACEEagleSettingTab extends PluginSettingTab {
@@ -42,7 +50,7 @@ export class CMDSPACEEagleSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Connection Timeout')
-			.setDesc('Timeout in milliseconds for API requests')
+			.setDesc('Longest wait in milliseconds for an Eagle API request. Reads that fail with a server error are retried within the same time limit.')
 			.addText(text => text
 				.setPlaceholder('5000')
 				.setValue(this.plugin.settings.connectionTimeout.toString())
@@ -61,14 +69,21 @@ export class CMDSPACEEagleSettingTab extends PluginSettingTab {
 				.setButtonText('Test')
 				.onClick(async () => {
 					const api = new EagleApiService(this.plugin.settings);
-					const info = await api.getApplicationInfo();
-					if (info) {
-						new Notice(`✓ Connected to Eagle ${info.version} (${info.platform})`);
-					} else {
-						new Notice('✗ Failed to connect to Eagle. Make sure Eagle is running.');
+					try {
+						const info = await api.getApplicationInfo();
+						if (info) {
+							new Notice(`✓ Connected to Eagle ${info.version} (${info.platform})`);
+						} else {
+							new Notice('✗ Failed to connect to Eagle. Make sure Eagle is running.');
+						}
+					} catch (error) {
+						new Notice(`✗ ${getErrorMessage(error)}`);
 					}
 				}));
 
+		containerEl.createEl('h3', { text: 'Libraries' });
+		this.renderLibrarySettings(containerEl);
+
 		containerEl.createEl('h3', { text: 'Image Paste/Drop Behavior' });
 
 		new Setting(containerEl)
@@ -85,6 +100,50 @@ export class CMDSPACEEagleSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		const folderSetting = new Setting(containerEl)
+			.setName('Default Eagle folder')
+			.setDesc(this.plugin.settings.defaultFolder ? 'Loading...' : 'None (images go to the library root)')
+			.addButton(button => button
+				.setButtonText('Choose')
+				.onClick(async () => {
+					const folder = await this.plugin.pickEagleFolder();
+					if (!folder) return;
+					this.plugin.settings.defaultFolder = folder.id;
+					await this.plugin.saveSettings();
+					folderSetting.setDesc(folder.path);
+				}))
+			.addExtraButton(button => button
+				.setIcon('x')
+				.setTooltip('Clear')
+				.onClick(async () => {
+					this.plugin.settings.defaultFolder = '';
+					await this.plugin.saveSettings();
+					folderSetting.setDesc('None (images go to the library root)');
+				}));
+		this.describeFolder(folderSetting, this.plugin.settings.defaultFolder);
+
+		new Setting(containerEl)
+			.setName('Ask for folder on paste')
+			.setDesc('Pick an Eagle folder each time images are pasted into Eagle. Press Esc to use the note\'s folder or the default.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.askFolderOnPaste)
+				.onChange(async (value) => {
+					this.plugin.settings.askFolderOnPaste = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Import images from pasted web content')
+			.setDesc('When pasting part of a web page, download its images into Eagle (with the page as source URL) and point the pasted markdown at the Eagle copies')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.importPastedHtmlImages)
+				.onChange(async (value) => {
+					this.plugin.settings.importPastedHtmlImages = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.renderPasteRules(containerEl);
+
 		containerEl.createEl('h3', { text: 'Search & Embed' });
 
 		new Setting(containerEl)
@@ -97,8 +156,62 @@ export class CMDSPACEEagleSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Embed format')
+			.setDesc('File URL writes the absolute path of the original file. Eagle ID writes ![name](eagle://item/ID) and resolves the file on this computer when the note is shown, so notes contain no machine-specific paths.')
+			.addDropdown(dropdown => dropdown
+				.addOption('file-url', 'File URL')
+				.addOption('eagle-id', 'Eagle ID')
+				.setValue(this.plugin.settings.embedFormat)
+				.onChange(async (value: EmbedFormat) => {
+					this.plugin.settings.embedFormat = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Autocomplete trigger')
+			.setDesc('Typing this in the editor suggests Eagle items inline. "![[eagle:" always works. Leave empty to use only "![[eagle:".')
+			.addText(text => text
+				.setPlaceholder('@eagle ')
+				.setValue(this.plugin.settings.editorSuggestTrigger)
+				.onChange(async (value) => {
+					this.plugin.settings.editorSuggestTrigger = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Thumbnail cache duration')
+			.setDesc('Minutes before a cached thumbnail is refreshed from Eagle. Cached thumbnails are still shown while Eagle is closed.')
+			.addText(text => text
+				.setPlaceholder('60')
+				.setValue(Math.round(this.plugin.settings.thumbnailCacheTTL / 60000).toString())
+				.onChange(async (value) => {
+					const num = parseInt(value, 10);
+					if (!isNaN(num) && num > 0) {
+						this.plugin.settings.thumbnailCacheTTL = num * 60000;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Clear thumbnail cache')
+			.setDesc('Delete all thumbnails cached in the plugin folder')
+			.addButton(button => button
+				.setButtonText('Clear')
+				.onClick(async () => {
+					try {
+						await this.plugin.thumbnailCache.clear();
+						new Notice('Thumbnail cache cleared');
+					} catch (error) {
+						new Notice(`✗ ${getErrorMessage(error)}`);
+					}
+				}));
+
 		this.renderSearchFiltersSettings(containerEl);
 
+		containerEl.createEl('h3', { text: 'Embed Templates' });
+		this.renderTemplateSettings(containerEl);
+
 		containerEl.createEl('h3', { text: 'Cloud Storage Provider' });
 
 		new Setting(containerEl)
@@ -420,6 +533,71 @@ export class CMDSPACEEagleSettingTab extends PluginSettingTab {
 				}));
 	}
 
+	private renderTemplateSettings(containerEl: HTMLElement): void {
+		const desc = containerEl.createEl('details', { cls: 'cmdspace-eagle-template-help' });
+		desc.createEl('summary', { text: 'Available variables' });
+		desc.createEl('p', {
+			text: 'Use {{variable}} to insert a value, {{#if variable}}...{{else}}...{{/if}} or {{#unless variable}}...{{/unless}} for conditionals. Values are escaped so | [ ] and line breaks cannot break tables or links; use {{variable_raw}} for the unescaped value.',
+			cls: 'setting-item-description',
+		});
+		const list = desc.createEl('ul');
+		TEMPLATE_VARIABLES.forEach(({ name, description }) => {
+			const li = list.createEl('li');
+			li.createEl('code', { text: `{{${name}}}` });
+			li.appendText(` — ${description}`);
+		});
+
+		const templates: { key: TemplateName; name: string; desc: string }[] = [
+			{ key: 'image', name: 'Image embed', desc: 'Used for embedded Eagle files and uploaded images' },
+			{ key: 'video', name: 'Video embed', desc: 'Used for MP4, MOV, WebM and other videos' },
+			{ key: 'pdf', name: 'PDF embed', desc: 'Used for PDF documents' },
+			{ key: 'design', name: 'Design file embed', desc: 'Used for PSD, AI and Sketch files, which browsers cannot display' },
+			{ key: 'link', name: 'Link', desc: 'Used when inserting a link without a card' },
+			{ key: 'metadata', name: 'Metadata card', desc: 'Inserted below embedded images when "Include metadata card" is on' },
+			{ key: 'card', name: 'Link card', desc: 'Inserted instead of a plain link when "Include metadata card" is on' },
+		];
+
+		let previewEl: HTMLElement;
+		const updatePreview = async () => {
+			previewEl.empty();
+			const markdown = this.plugin.renderer.renderInsertion(SAMPLE_ITEM, 'file:///Users/me/Pictures/Eagle.library/images/KBHG6KA0Y5S9W.info/Brand%20moodboard.png');
+			previewEl.createEl('pre', { cls: 'cmdspace-eagle-template-source', text: markdown });
+			const renderedEl = previewEl.createDiv({ cls: 'cmdspace-eagle-template-rendered' });
+			await MarkdownRenderer.render(this.app, markdown, renderedEl, '', this.plugin);
+		};
+
+		templates.forEach(({ key, name, desc }) => {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.setClass('cmdspace-eagle-template-setting')
+				.addTextArea(text => {
+					text
+						.setValue(this.plugin.settings.templates[key])
+						.onChange(async (value) => {
+							this.plugin.settings.templates[key] = value;
+							await this.plugin.saveSettings();
+							await updatePreview();
+						});
+					text.inputEl.rows = key === 'card' ? 12 : key === 'metadata' ? 4 : 2;
+				})
+				.addExtraButton(button => button
+					.setIcon('reset')
+					.setTooltip('Restore default')
+					.onClick(async () => {
+						this.plugin.settings.templates[key] = DEFAULT_TEMPLATES[key];
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.setName('Preview')
+			.setDesc('What the current settings insert for a sample item');
+		previewEl = containerEl.createDiv({ cls: 'cmdspace-eagle-template-preview' });
+		void updatePreview();
+	}
+
 	private renderSearchFiltersSettings(containerEl: HTMLElement): void {
 		const filterContainer = containerEl.createDiv({ cls: 'cmdspace-eagle-settings-filters' });
 		
@@ -543,11 +721,318 @@ export class CMDSPACEEagleSettingTab extends PluginSettingTab {
 		});
 	}
 
+	private describeFolder(setting: Setting, folderId: string): void {
+		if (!folderId) return;
+		this.plugin.api.listFolderOptions()
+			.then(folders => {
+				const folder = folders.find(f => f.id === folderId);
+				setting.setDesc(folder ? folder.path : `Missing folder (${folderId})`);
+			})
+			.catch(() => setting.setDesc(`${folderId} (Eagle is not running)`));
+	}
+
+	private renderPasteRules(containerEl: HTMLElement): void {
+		const { settings } = this.plugin;
+
+		new Setting(containerEl)
+			.setName('Routing rules')
+			.setDesc(`Checked top to bottom before the default behavior. Empty conditions match everything. Filename variables: ${FILENAME_VARIABLES.map(v => `{{${v}}}`).join(', ')}`)
+			.addButton(button => button
+				.setButtonText('Add rule')
+				.onClick(async () => {
+					settings.pasteRules.push({
+						id: `rule-${Date.now()}`,
+						name: `Rule ${settings.pasteRules.length + 1}`,
+						enabled: true,
+						folderGlob: '',
+						frontmatter: '',
+						fileTypes: '',
+						destination: 'eagle',
+						eagleFolderId: '',
+						cloudProvider: '',
+						tags: [],
+						filenameTemplate: '',
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		const rulesContainer = containerEl.createDiv({ cls: 'cmdspace-eagle-paste-rules' });
+		settings.pasteRules.forEach((rule, index) => {
+			const ruleEl = rulesContainer.createEl('details', { cls: 'cmdspace-eagle-paste-rule' });
+			const summary = ruleEl.createEl('summary');
+			const describe = () => {
+				const conditions = [rule.folderGlob, rule.frontmatter, rule.fileTypes].filter(Boolean).join(' · ') || 'any note';
+				summary.setText(`${index + 1}. ${rule.name}${rule.enabled ? '' : ' (off)'} — ${conditions} → ${rule.destination}`);
+			};
+			describe();
+
+			const save = async () => {
+				describe();
+				await this.plugin.saveSettings();
+			};
+
+			new Setting(ruleEl)
+				.setName('Name')
+				.addText(text => text
+					.setValue(rule.name)
+					.onChange(async (value) => {
+						rule.name = value;
+						await save();
+					}))
+				.addToggle(toggle => toggle
+					.setTooltip('Enabled')
+					.setValue(rule.enabled)
+					.onChange(async (value) => {
+						rule.enabled = value;
+						await save();
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						if (index === 0) return;
+						settings.pasteRules.splice(index - 1, 0, settings.pasteRules.splice(index, 1)[0]);
+						await this.plugin.saveSettings();
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete rule')
+					.onClick(async () => {
+						settings.pasteRules.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			new Setting(ruleEl)
+				.setName('Vault folder')
+				.setDesc('Folder or glob matched against the note path, e.g. Projects/Brand or Journal/**/*.md')
+				.addText(text => text
+					.setValue(rule.folderGlob)
+					.onChange(async (value) => {
+						rule.folderGlob = value.trim();
+						await save();
+					}));
+
+			new Setting(ruleEl)
+				.setName('Frontmatter')
+				.setDesc('A property that must be set (publish) or equal a value (type: moodboard)')
+				.addText(text => text
+					.setValue(rule.frontmatter)
+					.onChange(async (value) => {
+						rule.frontmatter = value.trim();
+						await save();
+					}));
+
+			new Setting(ruleEl)
+				.setName('File types')
+				.setDesc('Comma-separated extensions, e.g. png, jpg')
+				.addText(text => text
+					.setValue(rule.fileTypes)
+					.onChange(async (value) => {
+						rule.fileTypes = value.trim();
+						await save();
+					}));
+
+			new Setting(ruleEl)
+				.setName('Destination')
+				.addDropdown(dropdown => dropdown
+					.addOption('eagle', 'Eagle (local)')
+					.addOption('local', 'Vault (local)')
+					.addOption('cloud', 'Cloud')
+					.setValue(rule.destination)
+					.onChange(async (value: PasteDestination) => {
+						rule.destination = value;
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			if (rule.destination === 'eagle') {
+				const folderSetting = new Setting(ruleEl)
+					.setName('Eagle folder')
+					.setDesc(rule.eagleFolderId ? 'Loading...' : 'Note folder or default folder')
+					.addButton(button => button
+						.setButtonText('Choose')
+						.onClick(async () => {
+							const folder = await this.plugin.pickEagleFolder();
+							if (!folder) return;
+							rule.eagleFolderId = folder.id;
+							folderSetting.setDesc(folder.path);
+							await save();
+						}))
+					.addExtraButton(button => button
+						.setIcon('x')
+						.setTooltip('Clear')
+						.onClick(async () => {
+							rule.eagleFolderId = '';
+							folderSetting.setDesc('Note folder or default folder');
+							await save();
+						}));
+
+				this.describeFolder(folderSetting, rule.eagleFolderId);
+
+				new Setting(ruleEl)
+					.setName('Tags')
+					.setDesc('Comma-separated tags added to the Eagle item')
+					.addText(text => text
+						.setValue(rule.tags.join(', '))
+						.onChange(async (value) => {
+							rule.tags = value.split(',').map(tag => tag.trim()).filter(Boolean);
+							await save();
+						}));
+			}
+
+			if (rule.destination === 'cloud') {
+				new Setting(ruleEl)
+					.setName('Cloud provider')
+					.addDropdown(dropdown => dropdown
+						.addOption('', 'Active provider')
+						.addOption('r2', 'Cloudflare R2')
+						.addOption('imghippo', 'ImgHippo (Free)')
+						.addOption('s3', 'Amazon S3')
+						.addOption('webdav', 'WebDAV (Synology/NAS)')
+						.addOption('custom', 'Custom Server')
+						.setValue(rule.cloudProvider)
+						.onChange(async (value: CloudProviderType | '') => {
+							rule.cloudProvider = value;
+							await save();
+						}));
+			}
+
+			new Setting(ruleEl)
+				.setName('Filename template')
+				.setDesc('Leave empty to keep the original name, e.g. {{note}}-{{date}}-{{name}}')
+				.addText(text => text
+					.setValue(rule.filenameTemplate)
+					.onChange(async (value) => {
+						rule.filenameTemplate = value.trim();
+						await save();
+					}));
+		});
+	}
+
+	private renderLibrarySettings(containerEl: HTMLElement): void {
+		const { settings } = this.plugin;
+
+		new Setting(containerEl)
+			.setName('Register open library')
+			.setDesc('Add the library Eagle currently has open. Notes bound to a library offer to switch Eagle to it before embedding or resolving images.')
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(async () => {
+					const libraryPath = await this.plugin.api.getLibraryPath();
+					if (!libraryPath) {
+						new Notice('Could not read the library path. Is Eagle running?');
+						return;
+					}
+					if (settings.libraries.some(library => isSameLibrary(library.path, libraryPath))) {
+						new Notice('This library is already registered');
+						return;
+					}
+
+					settings.libraries.push({
+						id: `library-${Date.now()}`,
+						name: getLibraryName(libraryPath).replace(/\.library$/i, ''),
+						path: libraryPath,
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		for (const library of settings.libraries) {
+			new Setting(containerEl)
+				.setDesc(library.path)
+				.addText(text => text
+					.setPlaceholder('Name')
+					.setValue(library.name)
+					.onChange(async (value) => {
+						library.name = value.trim() || getLibraryName(library.path).replace(/\.library$/i, '');
+						await this.plugin.saveSettings();
+					}))
+				.addButton(button => button
+					.setButtonText('Open in Eagle')
+					.onClick(async () => {
+						await this.plugin.switchLibrary(library);
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove library')
+					.onClick(async () => {
+						settings.libraries = settings.libraries.filter(l => l.id !== library.id);
+						settings.libraryBindings = settings.libraryBindings.filter(binding => binding.libraryId !== library.id);
+						if (settings.defaultLibraryId === library.id) {
+							settings.defaultLibraryId = '';
+						}
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		}
+
+		if (settings.libraries.length === 0) return;
+
+		new Setting(containerEl)
+			.setName('Vault library')
+			.setDesc('Library used by notes outside any bound folder')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Any (use the open library)');
+				settings.libraries.forEach(library => dropdown.addOption(library.id, library.name));
+				dropdown
+					.setValue(settings.defaultLibraryId)
+					.onChange(async (value) => {
+						settings.defaultLibraryId = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		settings.libraryBindings.forEach((binding, index) => {
+			new Setting(containerEl)
+				.setName(index === 0 ? 'Folder bindings' : '')
+				.setDesc(index === 0 ? 'The deepest matching folder wins' : '')
+				.addText(text => text
+					.setPlaceholder('Folder, e.g. Projects/Brand')
+					.setValue(binding.folder)
+					.onChange(async (value) => {
+						binding.folder = value.trim().replace(/^\/+|\/+$/g, '');
+						await this.plugin.saveSettings();
+					}))
+				.addDropdown(dropdown => {
+					settings.libraries.forEach(library => dropdown.addOption(library.id, library.name));
+					dropdown
+						.setValue(binding.libraryId)
+						.onChange(async (value) => {
+							binding.libraryId = value;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove binding')
+					.onClick(async () => {
+						settings.libraryBindings.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.setName(settings.libraryBindings.length === 0 ? 'Folder bindings' : '')
+			.setDesc(settings.libraryBindings.length === 0 ? 'Bind vault folders to a library' : '')
+			.addButton(button => button
+				.setButtonText('Add folder binding')
+				.onClick(async () => {
+					settings.libraryBindings.push({ folder: '', libraryId: settings.libraries[0].id });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
 	private renderCrossPlatformSettings(containerEl: HTMLElement): void {
 		const infoEl = containerEl.createEl('div', { cls: 'setting-item-description' });
 		infoEl.style.marginBottom = '12px';
 		infoEl.innerHTML = `
-			<p style="margin: 0 0 8px 0;">Enable this to use the same vault on multiple computers (macOS/Windows).</p>
+			<p style="margin: 0 0 8px 0;">Enable this to use the same vault on multiple computers (macOS/Windows/Linux).</p>
 			<p style="margin: 0; color: var(--text-muted);">File paths will be automatically converted based on the current computer.</p>
 		`;
 
@@ -567,23 +1052,36 @@ export class CMDSPACEEagleSettingTab extends PluginSettingTab {
 		}
 
 		new Setting(containerEl)
-			.setName('Auto-convert paths on file open')
-			.setDesc('Automatically convert cross-platform paths when opening a note')
-			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.autoConvertCrossPlatformPaths)
-				.onChange(async (value) => {
-					this.plugin.settings.autoConvertCrossPlatformPaths = value;
+			.setName('Conversion mode')
+			.setDesc('Render only rewrites image paths in reading view and Live Preview without changing the note. Modify source rewrites the paths stored in the note.')
+			.addDropdown(dropdown => dropdown
+				.addOption('render-only', 'Render only')
+				.addOption('modify-source', 'Modify source')
+				.setValue(this.plugin.settings.crossPlatformConversionMode)
+				.onChange(async (value: CrossPlatformConversionMode) => {
+					this.plugin.settings.crossPlatformConversionMode = value;
 					await this.plugin.saveSettings();
+					this.display();
 				}));
 
+		if (this.plugin.settings.crossPlatformConversionMode === 'modify-source') {
+			new Setting(containerEl)
+				.setName('Auto-convert paths on file open')
+				.setDesc('Automatically convert cross-platform paths when opening a note')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.autoConvertCrossPlatformPaths)
+					.onChange(async (value) => {
+						this.plugin.settings.autoConvertCrossPlatformPaths = value;
+						await this.plugin.saveSettings();
+					}));
+		}
 
-
-		const currentPlatform = process.platform as PlatformType;
-		const currentUsername = this.detectCurrentUsername();
+		const currentPlatform = getCurrentPlatform();
+		const currentUsername = this.plugin.crossPlatform.getCurrentUsername();
 
 		new Setting(containerEl)
 			.setName('Add current computer')
-			.setDesc(`Detected: ${currentPlatform === 'darwin' ? 'macOS' : 'Windows'} / ${currentUsername}`)
+			.setDesc(`Detected: ${PLATFORM_LABELS[currentPlatform]} / ${currentUsername}`)
 			.addButton(button => button
 				.setButtonText('Add')
 				.onClick(async () => {
@@ -598,11 +1096,12 @@ export class CMDSPACEEagleSettingTab extends PluginSettingTab {
 
 					const newProfile: ComputerProfile = {
 						id: `${currentPlatform}-${currentUsername}-${Date.now()}`,
-						name: currentPlatform === 'darwin' ? `Mac (${currentUsername})` : `Windows (${currentUsername})`,
+						name: `${PLATFORM_LABELS[currentPlatform]} (${currentUsername})`,
 						platform: currentPlatform,
 						username: currentUsername,
 						subPath: '',
-						eagleLibraryPath: '',
+						eagleLibraryPath: await this.plugin.api.getLibraryPath() ?? '',
+						roots: [],
 						isCurrentComputer: true,
 					};
 
@@ -621,7 +1120,11 @@ export class CMDSPACEEagleSettingTab extends PluginSettingTab {
 
 			listContainer.createEl('div', { 
 				text: 'Registered Computers',
-				attr: { style: 'font-weight: 600; margin-bottom: 12px;' }
+				attr: { style: 'font-weight: 600; margin-bottom: 4px;' }
+			});
+			listContainer.createEl('div', {
+				text: `Paths are converted between roots with the same name. Every computer has an implicit "${HOME_ROOT_NAME}" root (home folder + sub-path); add roots such as "Dropbox" or "Eagle" for libraries on other drives or volumes.`,
+				attr: { style: 'font-size: 12px; color: var(--text-muted); margin-bottom: 12px;' }
 			});
 
 			for (const computer of this.plugin.settings.computers) {
@@ -639,13 +1142,13 @@ export class CMDSPACEEagleSettingTab extends PluginSettingTab {
 				const headerRow = computerEl.createDiv({ attr: { style: 'display: flex; justify-content: space-between; align-items: center; width: 100%;' } });
 
 				const infoDiv = headerRow.createDiv({ attr: { style: 'flex: 1;' } });
-				const platformIcon = computer.platform === 'darwin' ? '🍎' : '🪟';
+				const platformIcons: Record<PlatformType, string> = { darwin: '🍎', win32: '🪟', linux: '🐧' };
 				infoDiv.createEl('div', { 
-					text: `${platformIcon} ${computer.name}`,
+					text: `${platformIcons[computer.platform]} ${computer.name}`,
 					attr: { style: 'font-weight: 500;' }
 				});
 				infoDiv.createEl('div', { 
-					text: `${computer.platform === 'darwin' ? 'macOS' : 'Windows'} • ${computer.username}${isCurrentComputer ? ' (current)' : ''}`,
+					text: `${PLATFORM_LABELS[computer.platform]} • ${computer.username}${isCurrentComputer ? ' (current)' : ''}`,
 					attr: { style: 'font-size: 12px; color: var(--text-muted);' }
 				});
 
@@ -653,7 +1156,7 @@ export class CMDSPACEEagleSettingTab extends PluginSettingTab {
 
 				const subPathContainer = computerEl.createDiv({ attr: { style: 'margin-top: 8px; width: 100%;' } });
 				subPathContainer.createEl('label', { 
-					text: 'Sub-path (folders between /Users/name/ and sync folder)',
+					text: `Sub-path (folders between ${getHomePath(computer.platform, computer.username)}/ and sync folder)`,
 					attr: { style: 'font-size: 11px; color: var(--text-muted); display: block; margin-bottom: 4px;' }
 				});
 				const subPathInput = subPathContainer.createEl('input', {
@@ -669,6 +1172,10 @@ export class CMDSPACEEagleSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					}
 				});
+
+				this.renderLibraryPath(computerEl, computer, isCurrentComputer);
+				this.renderPathRoots(computerEl, computer);
+
 				deleteBtn.style.padding = '4px 8px';
 				deleteBtn.style.cursor = 'pointer';
 				deleteBtn.addEventListener('click', async () => {
@@ -681,19 +1188,87 @@ export class CMDSPACEEagleSettingTab extends PluginSettingTab {
 		}
 	}
 
-	private detectCurrentUsername(): string {
-		const adapter = this.app.vault.adapter as { basePath?: string };
-		const vaultPath = adapter.basePath || '';
-		const platform = process.platform;
-
-		if (platform === 'darwin') {
-			const match = vaultPath.match(/^\/Users\/([^/]+)/);
-			if (match) return match[1];
-		} else if (platform === 'win32') {
-			const match = vaultPath.match(/^[A-Za-z]:[/\\]Users[/\\]([^/\\]+)/i);
-			if (match) return match[1];
-		}
+	private renderLibraryPath(containerEl: HTMLElement, computer: ComputerProfile, isCurrentComputer: boolean): void {
+		const libraryContainer = containerEl.createDiv({ attr: { style: 'margin-top: 8px; width: 100%;' } });
+		libraryContainer.createEl('label', {
+			text: 'Eagle library path (paths inside the library are mapped between computers)',
+			attr: { style: 'font-size: 11px; color: var(--text-muted); display: block; margin-bottom: 4px;' }
+		});
+
+		const row = libraryContainer.createDiv({ attr: { style: 'display: flex; gap: 6px;' } });
+		const libraryInput = row.createEl('input', {
+			type: 'text',
+			value: computer.eagleLibraryPath || '',
+			placeholder: computer.platform === 'win32' ? 'D:/Eagle/Design.library' : `${getHomePath(computer.platform, computer.username)}/Dropbox/Design.library`,
+			attr: { style: 'flex: 1; padding: 4px 8px; border-radius: 4px; border: 1px solid var(--background-modifier-border);' }
+		});
+		libraryInput.addEventListener('change', async () => {
+			computer.eagleLibraryPath = libraryInput.value.trim();
+			await this.plugin.saveSettings();
+		});
+
+		if (!isCurrentComputer) return;
+
+		const detectBtn = row.createEl('button', { text: 'Detect' });
+		detectBtn.addEventListener('click', async () => {
+			const libraryPath = await this.plugin.api.getLibraryPath();
+			if (!libraryPath) {
+				new Notice('Could not read the library path. Is Eagle running?');
+				return;
+			}
+			computer.eagleLibraryPath = libraryPath;
+			libraryInput.value = libraryPath;
+			await this.plugin.saveSettings();
+			new Notice('Library path updated');
+		});
+	}
+
+	private renderPathRoots(containerEl: HTMLElement, computer: ComputerProfile): void {
+		const rootsContainer = containerEl.createDiv({ attr: { style: 'margin-top: 8px; width: 100%;' } });
+		rootsContainer.createEl('label', {
+			text: 'Path roots (name → path on this computer)',
+			attr: { style: 'font-size: 11px; color: var(--text-muted); display: block; margin-bottom: 4px;' }
+		});
+
+		const roots = computer.roots ?? (computer.roots = []);
+		const inputStyle = 'padding: 4px 8px; border-radius: 4px; border: 1px solid var(--background-modifier-border);';
+
+		roots.forEach((root, index) => {
+			const row = rootsContainer.createDiv({ attr: { style: 'display: flex; gap: 6px; margin-bottom: 4px;' } });
+			const nameInput = row.createEl('input', {
+				type: 'text',
+				value: root.name,
+				placeholder: 'Name, e.g. Eagle',
+				attr: { style: `width: 30%; ${inputStyle}` }
+			});
+			const pathInput = row.createEl('input', {
+				type: 'text',
+				value: root.path,
+				placeholder: computer.platform === 'win32' ? 'D:/Eagle' : computer.platform === 'linux' ? '/mnt/data/Eagle' : '/Volumes/Media/Eagle',
+				attr: { style: `flex: 1; ${inputStyle}` }
+			});
+			const removeBtn = row.createEl('button', { text: '×' });
 
-		return 'unknown';
+			nameInput.addEventListener('change', async () => {
+				root.name = nameInput.value.trim();
+				await this.plugin.saveSettings();
+			});
+			pathInput.addEventListener('change', async () => {
+				root.path = pathInput.value.trim();
+				await this.plugin.saveSettings();
+			});
+			removeBtn.addEventListener('click', async () => {
+				roots.splice(index, 1);
+				await this.plugin.saveSettings();
+				this.display();
+			});
+		});
+
+		const addBtn = rootsContainer.createEl('button', { text: 'Add root' });
+		addBtn.addEventListener('click', async () => {
+			roots.push({ name: '', path: '' });
+			await this.plugin.saveSettings();
+			this.display();
+		});
 	}
 }
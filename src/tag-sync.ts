@@ -0,0 +1,325 @@
+import { App, TFile, getAllTags } from 'obsidian';
+import { EagleApiService } from './api';
+import { EagleItemIndex } from './item-index';
+import { CMDSPACEEagleSettings, EagleItem } from './types';
+
+const STATE_VERSION = 2;
+
+export type TagSide = 'note' | 'eagle';
+
+export interface TagConflict {
+	key: string;
+	base: string | null;
+	note: string | null;
+	eagle: string | null;
+}
+
+export type TagConflictResolver = (item: EagleItem, conflicts: TagConflict[]) => Promise<Map<string, TagSide> | null>;
+
+export interface TagSyncResult {
+	itemsUpdated: number;
+	tagsAddedToNote: number;
+	tagsRemovedFromNote: number;
+	skipped: number;
+	failed: number;
+}
+
+/** Tags keyed by their lowercased value; a null value in a change set means the tag was removed. */
+type TagMap = Map<string, string>;
+type TagChanges = Map<string, string | null>;
+
+interface NoteSyncState {
+	/** The note's tags after the last sync */
+	tags: string[];
+	/** Each linked item's tags after the last sync */
+	items: Record<string, string[]>;
+}
+
+interface TagSyncStateFile {
+	version: number;
+	notes?: Record<string, NoteSyncState>;
+	/** Version 1 only kept per-item bases */
+	pairs?: Record<string, Record<string, string[]>>;
+}
+
+function diffTags(from: TagMap, to: TagMap): TagChanges {
+	const changes: TagChanges = new Map();
+	to.forEach((value, key) => {
+		if (from.get(key) !== value) changes.set(key, value);
+	});
+	from.forEach((_, key) => {
+		if (!to.has(key)) changes.set(key, null);
+	});
+	return changes;
+}
+
+function applyTagChanges(tags: TagMap, changes: TagChanges): TagMap {
+	const result = new Map(tags);
+	changes.forEach((value, key) => {
+		if (value === null) {
+			result.delete(key);
+		} else {
+			result.set(key, value);
+		}
+	});
+	return result;
+}
+
+export function isInternalTag(tag: string): boolean {
+	return tag.startsWith('r2:') || tag === 'r2-cloud' || tag === 'cloud-upload';
+}
+
+export class TagSyncEngine {
+	private app: App;
+	private api: EagleApiService;
+	private itemIndex: EagleItemIndex;
+	private statePath: string;
+	private settings: CMDSPACEEagleSettings;
+	private notes: Record<string, NoteSyncState> = {};
+
+	constructor(app: App, api: EagleApiService, itemIndex: EagleItemIndex, statePath: string, settings: CMDSPACEEagleSettings) {
+		this.app = app;
+		this.api = api;
+		this.itemIndex = itemIndex;
+		this.statePath = statePath;
+		this.settings = settings;
+	}
+
+	updateSettings(settings: CMDSPACEEagleSettings): void {
+		this.settings = settings;
+	}
+
+	async load(): Promise<void> {
+		try {
+			if (!(await this.app.vault.adapter.exists(this.statePath))) return;
+			const data = JSON.parse(await this.app.vault.adapter.read(this.statePath)) as TagSyncStateFile;
+			if (data.version === STATE_VERSION && data.notes) {
+				this.notes = data.notes;
+			} else if (data.version === 1 && data.pairs) {
+				// Without a recorded note base, tags the note shares with any item count as already synced
+				for (const [path, items] of Object.entries(data.pairs)) {
+					const tags = [...new Set(Object.values(items).reduce((all, values) => all.concat(values), [] as string[]))];
+					this.notes[path] = { tags, items };
+				}
+			}
+		} catch (error) {
+			console.error('[CMDS Eagle] Failed to load tag sync state:', error);
+		}
+	}
+
+	async renameNote(oldPath: string, newPath: string): Promise<void> {
+		if (!this.notes[oldPath]) return;
+		this.notes[newPath] = this.notes[oldPath];
+		delete this.notes[oldPath];
+		await this.save();
+	}
+
+	async forgetNote(path: string): Promise<void> {
+		if (!this.notes[path]) return;
+		delete this.notes[path];
+		await this.save();
+	}
+
+	/**
+	 * Two-way sync between a note and the Eagle items it links. The note's own changes since the last
+	 * sync go to every item, while each item's changes in Eagle come back to the note only. An item
+	 * never receives tags that came from another item, so siblings stay independent across syncs.
+	 */
+	async syncNote(file: TFile, itemIds: string[], resolveConflicts: TagConflictResolver): Promise<TagSyncResult> {
+		const result: TagSyncResult = { itemsUpdated: 0, tagsAddedToNote: 0, tagsRemovedFromNote: 0, skipped: 0, failed: 0 };
+
+		const state = this.notes[file.path] ?? { tags: [], items: {} };
+		const noteTags = this.readNoteTags(file);
+		const noteBase = this.toTagMap(state.tags);
+		const noteChanges = diffTags(noteBase, noteTags);
+		// Eagle-side changes from all items, applied to the note once at the end
+		const pulled: TagChanges = new Map();
+
+		for (const id of itemIds) {
+			try {
+				const item = await this.api.getItemInfo(id);
+				const eagleTags = this.toTagMap(item.tags.filter(tag => !isInternalTag(tag)).map(tag => this.fromEagleTag(tag)));
+				const itemBase = this.toTagMap(state.items[id] ?? []);
+				const eagleChanges = diffTags(itemBase, eagleTags);
+
+				const conflicts: TagConflict[] = [];
+				noteChanges.forEach((value, key) => {
+					if (eagleChanges.has(key) && eagleChanges.get(key) !== value) {
+						conflicts.push({ key, base: itemBase.get(key) ?? null, note: noteTags.get(key) ?? null, eagle: eagleTags.get(key) ?? null });
+					}
+				});
+
+				const toItem: TagChanges = new Map(noteChanges);
+				const toNote: TagChanges = new Map(eagleChanges);
+				if (conflicts.length > 0) {
+					const choices = await resolveConflicts(item, conflicts);
+					if (!choices) {
+						result.skipped++;
+						continue;
+					}
+					for (const conflict of conflicts) {
+						if (choices.get(conflict.key) === 'eagle') {
+							toItem.delete(conflict.key);
+						} else {
+							toNote.delete(conflict.key);
+						}
+					}
+				}
+
+				const merged = applyTagChanges(eagleTags, toItem);
+				const newEagleTags = this.buildEagleTags(item.tags, merged);
+				if (!this.sameTags(item.tags, newEagleTags)) {
+					await this.api.updateItem(id, { tags: newEagleTags });
+					this.itemIndex.upsert({ ...item, tags: newEagleTags });
+					result.itemsUpdated++;
+				}
+				state.items[id] = [...merged.values()];
+
+				// When two items disagree about a tag, adding it wins over removing it
+				toNote.forEach((value, key) => {
+					if (value !== null || !pulled.has(key)) pulled.set(key, value);
+				});
+			} catch (error) {
+				result.failed++;
+				console.error(`[CMDS Eagle] Failed to sync tags with ${id}:`, error);
+			}
+		}
+
+		const finalNoteTags = applyTagChanges(noteTags, pulled);
+		const noteDiff = diffTags(noteTags, finalNoteTags);
+		const added: string[] = [];
+		const removed: string[] = [];
+		noteDiff.forEach((value, key) => {
+			const previous = noteTags.get(key);
+			if (previous !== undefined) removed.push(previous);
+			if (value !== null) added.push(value);
+		});
+		if (added.length > 0 || removed.length > 0) {
+			await this.writeNoteTags(file, added, removed);
+		}
+		result.tagsAddedToNote = added.length;
+		result.tagsRemovedFromNote = removed.length;
+
+		// An item that missed this sync still needs the note's changes next time, so only the pulled tags move the base
+		const missedItems = result.skipped > 0 || result.failed > 0;
+		state.tags = [...(missedItems ? applyTagChanges(noteBase, pulled) : finalNoteTags).values()];
+		this.notes[file.path] = state;
+		await this.save();
+
+		return result;
+	}
+
+	private readNoteTags(file: TFile): Map<string, string> {
+		const tags = new Map<string, string>();
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (!cache) return tags;
+
+		for (const tag of getAllTags(cache) || []) {
+			const value = this.fromNoteTag(tag);
+			if (value) {
+				tags.set(this.toKey(value), value);
+			}
+		}
+		return tags;
+	}
+
+	private async writeNoteTags(file: TFile, added: string[], removed: string[]): Promise<void> {
+		const removedKeys = new Set(removed.map(value => this.toKey(value)));
+		const isRemoved = (tag: string) => {
+			const value = this.fromNoteTag(String(tag));
+			return value !== null && removedKeys.has(this.toKey(value));
+		};
+
+		// Inline tags are removed at the positions the metadata cache reports, which skips code blocks and inline code.
+		// This runs before the frontmatter is rewritten so the cached offsets still apply.
+		const inlineTags = (this.app.metadataCache.getFileCache(file)?.tags ?? [])
+			.filter(tag => isRemoved(tag.tag))
+			.sort((a, b) => b.position.start.offset - a.position.start.offset);
+		if (inlineTags.length > 0) {
+			await this.app.vault.process(file, (content) => {
+				let updated = content;
+				for (const tag of inlineTags) {
+					const { start, end } = tag.position;
+					if (updated.slice(start.offset, end.offset) !== tag.tag) continue;
+					updated = updated.slice(0, start.offset) + updated.slice(end.offset);
+				}
+				return updated;
+			});
+		}
+
+		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			const existing: string[] = Array.isArray(frontmatter.tags)
+				? frontmatter.tags
+				: typeof frontmatter.tags === 'string'
+					? frontmatter.tags.split(/[,\s]+/).filter(Boolean)
+					: [];
+			const kept = existing.filter(tag => !isRemoved(tag));
+			frontmatter.tags = [...new Set([...kept, ...added.map(value => this.toNoteTag(value))])];
+		});
+	}
+
+	private buildEagleTags(original: string[], merged: Map<string, string>): string[] {
+		const tags = original.filter(tag => isInternalTag(tag));
+		const originalByValue = new Map<string, string>();
+		original.forEach(tag => {
+			if (!isInternalTag(tag)) {
+				originalByValue.set(this.fromEagleTag(tag), tag);
+			}
+		});
+
+		merged.forEach(value => {
+			tags.push(originalByValue.get(value) ?? value);
+		});
+		return tags;
+	}
+
+	private sameTags(a: string[], b: string[]): boolean {
+		if (a.length !== b.length) return false;
+		const set = new Set(a);
+		return b.every(tag => set.has(tag));
+	}
+
+	private fromEagleTag(tag: string): string {
+		const normalized = tag.trim().replace(/\s+/g, '-');
+		return this.settings.tagNormalization === 'lowercase' ? normalized.toLowerCase() : normalized;
+	}
+
+	private fromNoteTag(tag: string): string | null {
+		let value = tag.replace(/^#/, '');
+		if (this.settings.tagPrefix) {
+			const prefix = `${this.settings.tagPrefix}/`;
+			if (!value.startsWith(prefix)) return null;
+			value = value.slice(prefix.length);
+		}
+		if (!value) return null;
+		return this.settings.tagNormalization === 'lowercase' ? value.toLowerCase() : value;
+	}
+
+	private toNoteTag(value: string): string {
+		return this.settings.tagPrefix ? `${this.settings.tagPrefix}/${value}` : value;
+	}
+
+	private toKey(value: string): string {
+		return value.toLowerCase();
+	}
+
+	private toTagMap(values: Iterable<string>): TagMap {
+		const tags: TagMap = new Map();
+		for (const value of values) {
+			tags.set(this.toKey(value), value);
+		}
+		return tags;
+	}
+
+	private async save(): Promise<void> {
+		const data: TagSyncStateFile = {
+			version: STATE_VERSION,
+			notes: this.notes,
+		};
+		try {
+			await this.app.vault.adapter.write(this.statePath, JSON.stringify(data));
+		} catch (error) {
+			console.error('[CMDS Eagle] Failed to save tag sync state:', error);
+		}
+	}
+}
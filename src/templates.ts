@@ -0,0 +1,257 @@
+import { EagleApiService, buildEagleItemUrl, hasR2Upload } from './api';
+import { isInternalTag } from './tag-sync';
+import {
+	CMDSPACEEagleSettings,
+	EagleItem,
+	EmbedTemplates,
+	FileKind,
+	SUPPORTED_DOCUMENT_EXTENSIONS,
+	SUPPORTED_VIDEO_EXTENSIONS,
+} from './types';
+
+export type TemplateName = keyof EmbedTemplates;
+
+export type TemplateVariables = Record<string, string>;
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+	{ name: 'name', description: 'Item name without extension' },
+	{ name: 'filename', description: 'File name with extension' },
+	{ name: 'ext', description: 'Extension, e.g. png' },
+	{ name: 'extUpper', description: 'Extension in upper case, e.g. PNG' },
+	{ name: 'id', description: 'Eagle item id' },
+	{ name: 'width', description: 'Width in pixels' },
+	{ name: 'height', description: 'Height in pixels' },
+	{ name: 'dimensions', description: 'Width×height, empty if unknown' },
+	{ name: 'size', description: 'Formatted file size' },
+	{ name: 'star', description: 'Star rating (0-5)' },
+	{ name: 'tags', description: 'Tags as #hashtags (prefix and normalization applied)' },
+	{ name: 'tagList', description: 'Tags as a comma-separated list' },
+	{ name: 'annotation', description: 'Eagle annotation' },
+	{ name: 'sourceUrl', description: 'Source URL saved in Eagle' },
+	{ name: 'palette', description: 'Dominant colors as hex codes' },
+	{ name: 'eagleUrl', description: 'eagle://item/... link' },
+	{ name: 'link', description: 'Eagle link in the configured link format' },
+	{ name: 'cloudUrl', description: 'Cloud URL, empty if not uploaded' },
+	{ name: 'uploaded', description: 'Non-empty if uploaded to cloud' },
+	{ name: 'fileUrl', description: 'file:// URL of the original file' },
+	{ name: 'imageUrl', description: 'Image shown in cards (per image display mode)' },
+	{ name: 'thumbnailUrl', description: 'Eagle thumbnail URL' },
+	{ name: 'url', description: 'URL being embedded (image, video, PDF and design templates)' },
+	{ name: 'posterUrl', description: 'Thumbnail shown before a video plays or for design files' },
+];
+
+export function getFileKind(ext: string): FileKind {
+	const lower = ext.toLowerCase();
+	if ((SUPPORTED_VIDEO_EXTENSIONS as readonly string[]).includes(lower)) return 'video';
+	if (lower === 'pdf') return 'pdf';
+	if ((SUPPORTED_DOCUMENT_EXTENSIONS as readonly string[]).includes(lower)) return 'design';
+	return 'image';
+}
+
+export const SAMPLE_ITEM: EagleItem = {
+	id: 'KBHG6KA0Y5S9W',
+	name: 'Brand moodboard',
+	size: 284672,
+	ext: 'png',
+	tags: ['Brand', 'UI Kit', 'r2:uploads/KBHG6KA0Y5S9W.png'],
+	folders: [],
+	isDeleted: false,
+	url: 'https://example.com/moodboard',
+	annotation: 'Final direction approved',
+	modificationTime: 0,
+	lastModified: 0,
+	width: 1920,
+	height: 1080,
+	palettes: [
+		{ color: [32, 48, 96], ratio: 42 },
+		{ color: [240, 180, 60], ratio: 23 },
+		{ color: [250, 250, 248], ratio: 18 },
+	],
+	star: 4,
+};
+
+export type CardTemplateName = 'card' | 'metadata';
+
+/** Matches a rendered card between its markers; groups are the template name, item id and body. */
+export const CARD_BLOCK_REGEX = /^<!-- eagle-(card|metadata):([A-Z0-9]+) -->\n([\s\S]*?)\n<!-- \/eagle-\1 -->$/gim;
+
+/** Cards are wrapped in HTML comments carrying the item id, so they can be found and refreshed whatever the template looks like. */
+export function wrapCard(name: CardTemplateName, itemId: string, body: string): string {
+	return `<!-- eagle-${name}:${itemId} -->\n${body.trimEnd()}\n<!-- /eagle-${name} -->`;
+}
+
+// Values that are already markdown and must not be escaped
+const MARKDOWN_VARIABLES = new Set(['link', 'tags']);
+
+const URL_ESCAPES: Record<string, string> = { ' ': '%20', '\n': '%0A', '(': '%28', ')': '%29', '<': '%3C', '>': '%3E' };
+
+/** Keeps a value on one line and stops it from closing a table cell or link. */
+export function escapeMarkdownText(value: string): string {
+	return value.replace(/\s*\r?\n\s*/g, ' ').replace(/([|[\]])/g, '\\$1');
+}
+
+function escapeVariable(name: string, value: string): string {
+	if (MARKDOWN_VARIABLES.has(name)) return value;
+	if (/url$/i.test(name)) return value.replace(/[\s()<>]/g, char => URL_ESCAPES[char] ?? encodeURIComponent(char));
+	return escapeMarkdownText(value);
+}
+
+/**
+ * Fills `{{variable}}` placeholders and `{{#if}}`/`{{#unless}}` blocks. With `escapeMarkdown`, values are
+ * escaped for the markdown around them and `{{variable_raw}}` inserts the unescaped value.
+ */
+export function renderTemplate(template: string, variables: TemplateVariables, escapeMarkdown = false): string {
+	const blockRegex = /\{\{#(if|unless) (\w+)\}\}((?:(?!\{\{#(?:if|unless) )[\s\S])*?)\{\{\/\1\}\}/g;
+	const lookup = (name: string) => variables[name.replace(/_raw$/, '')];
+
+	let output = template;
+	let previous: string;
+	do {
+		previous = output;
+		output = output.replace(blockRegex, (_match, kind: string, name: string, body: string) => {
+			const elseIndex = body.indexOf('{{else}}');
+			const whenTrue = elseIndex >= 0 ? body.slice(0, elseIndex) : body;
+			const whenFalse = elseIndex >= 0 ? body.slice(elseIndex + '{{else}}'.length) : '';
+			const truthy = !!lookup(name);
+			return (kind === 'if' ? truthy : !truthy) ? whenTrue : whenFalse;
+		});
+	} while (output !== previous);
+
+	return output.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => {
+		const value = lookup(name) ?? '';
+		return escapeMarkdown && !name.endsWith('_raw') ? escapeVariable(name, value) : value;
+	});
+}
+
+export class EmbedRenderer {
+	private settings: CMDSPACEEagleSettings;
+	private api: EagleApiService;
+
+	constructor(settings: CMDSPACEEagleSettings, api: EagleApiService) {
+		this.settings = settings;
+		this.api = api;
+	}
+
+	updateSettings(settings: CMDSPACEEagleSettings): void {
+		this.settings = settings;
+	}
+
+	render(name: TemplateName, item: EagleItem, extra: TemplateVariables = {}): string {
+		return renderTemplate(this.settings.templates[name], { ...this.getItemVariables(item), ...extra }, true);
+	}
+
+	renderCard(name: CardTemplateName, item: EagleItem, extra: TemplateVariables = {}): string {
+		return wrapCard(name, item.id, this.render(name, item, extra));
+	}
+
+	renderImage(filename: string, url: string, item?: EagleItem): string {
+		const base = item ? this.getItemVariables(item) : {};
+		const ext = filename.includes('.') ? filename.split('.').pop() || '' : '';
+		return renderTemplate(this.settings.templates.image, {
+			name: ext ? filename.slice(0, -(ext.length + 1)) : filename,
+			ext,
+			extUpper: ext.toUpperCase(),
+			...base,
+			filename,
+			url,
+		}, true);
+	}
+
+	/** Renders an image, video, PDF or design file embed depending on the file extension. */
+	renderFile(filename: string, url: string, item?: EagleItem, extra: TemplateVariables = {}): string {
+		const ext = filename.includes('.') ? filename.split('.').pop() || '' : '';
+		const kind = getFileKind(ext);
+		if (kind === 'image') {
+			return this.renderImage(filename, url, item);
+		}
+
+		const base = item ? this.getItemVariables(item) : {};
+		return renderTemplate(this.settings.templates[kind], {
+			name: ext ? filename.slice(0, -(ext.length + 1)) : filename,
+			ext,
+			extUpper: ext.toUpperCase(),
+			...base,
+			posterUrl: item ? this.api.getLocalThumbnailUrl(item.id) : '',
+			...extra,
+			filename,
+			url,
+		}, true);
+	}
+
+	renderInsertion(item: EagleItem, fileUrl: string | null): string {
+		if (this.settings.insertAsEmbed && fileUrl) {
+			let output = this.renderFile(`${item.name}.${item.ext}`, fileUrl, item);
+			if (this.settings.insertThumbnail) {
+				output += '\n\n' + this.renderCard('metadata', item, { fileUrl });
+			}
+			return output;
+		}
+
+		if (this.settings.insertThumbnail) {
+			return this.renderCard('card', item, fileUrl ? { fileUrl } : {}) + '\n\n';
+		}
+		return this.render('link', item);
+	}
+
+	getItemVariables(item: EagleItem): TemplateVariables {
+		const eagleUrl = buildEagleItemUrl(item.id);
+		const cloudUrl = this.api.getCloudUrl(item) || '';
+		const visibleTags = item.tags.filter(tag => !isInternalTag(tag));
+		const dimensions = item.width && item.height ? `${item.width}×${item.height}` : '';
+		const imageUrl = this.settings.embedImageInCard ? this.getImageUrl(item) : '';
+
+		return {
+			id: item.id,
+			name: item.name,
+			filename: `${item.name}.${item.ext}`,
+			ext: item.ext,
+			extUpper: item.ext.toUpperCase(),
+			width: item.width ? String(item.width) : '',
+			height: item.height ? String(item.height) : '',
+			dimensions,
+			size: formatFileSize(item.size),
+			star: item.star ? String(item.star) : '',
+			tags: visibleTags.map(tag => `#${this.normalizeTag(tag)}`).join(' '),
+			tagList: visibleTags.join(', '),
+			annotation: item.annotation || '',
+			sourceUrl: item.url || '',
+			palette: (item.palettes || []).map(p => toHex(p.color)).join(' '),
+			eagleUrl,
+			link: this.settings.linkFormat === 'wikilink'
+				? `[[${eagleUrl}|${item.name.replace(/[|[\]\r\n]+/g, ' ')}]]`
+				: `[${escapeMarkdownText(item.name)}](${eagleUrl})`,
+			cloudUrl,
+			uploaded: hasR2Upload(item) ? 'true' : '',
+			fileUrl: '',
+			imageUrl,
+			thumbnailUrl: this.api.getLocalThumbnailUrl(item.id),
+		};
+	}
+
+	private getImageUrl(item: EagleItem): string {
+		const cloudUrl = this.api.getCloudUrl(item);
+		const localUrl = this.api.getLocalThumbnailUrl(item.id);
+		return this.settings.imageDisplayMode === 'local' ? localUrl : cloudUrl || localUrl;
+	}
+
+	private normalizeTag(tag: string): string {
+		let normalized = tag.replace(/\s+/g, '-');
+		if (this.settings.tagNormalization === 'lowercase') {
+			normalized = normalized.toLowerCase();
+		}
+		if (this.settings.tagPrefix) {
+			normalized = `${this.settings.tagPrefix}/${normalized}`;
+		}
+		return normalized;
+	}
+}
+
+function formatFileSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function toHex(color: [number, number, number]): string {
+	return '#' + color.map(c => ('0' + Math.round(c).toString(16)).slice(-2)).join('');
+}
@@ -0,0 +1,167 @@
+import { DataAdapter } from 'obsidian';
+import { promises as fs } from 'fs';
+import { EagleApiService } from './api';
+import { CMDSPACEEagleSettings } from './types';
+
+// Eagle is not asked again for a thumbnail that just failed, e.g. while it is closed
+const FAILURE_RETRY_MS = 60 * 1000;
+// Expired thumbnails stay as an offline fallback, but not forever
+const MAX_CACHE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 5000;
+
+interface CachedThumbnail {
+	path: string;
+	cachedAt: number;
+}
+
+export class ThumbnailCache {
+	private adapter: DataAdapter;
+	private api: EagleApiService;
+	private cacheDir: string;
+	private ttl: number;
+	private entries = new Map<string, CachedThumbnail>();
+	private pending = new Map<string, Promise<string | null>>();
+	private failedAt = new Map<string, number>();
+
+	constructor(adapter: DataAdapter, api: EagleApiService, cacheDir: string, settings: CMDSPACEEagleSettings) {
+		this.adapter = adapter;
+		this.api = api;
+		this.cacheDir = cacheDir;
+		this.ttl = settings.thumbnailCacheTTL;
+	}
+
+	updateSettings(settings: CMDSPACEEagleSettings): void {
+		this.ttl = settings.thumbnailCacheTTL;
+	}
+
+	/** Reads the cache folder and prunes old entries. Thumbnails fetched meanwhile are kept. */
+	async load(): Promise<void> {
+		if (!(await this.adapter.exists(this.cacheDir))) return;
+
+		const listing = await this.adapter.list(this.cacheDir);
+		const found = await Promise.all(listing.files.map(async (path) => {
+			const filename = path.split('/').pop() || '';
+			const id = filename.replace(/\.[^.]+$/, '');
+			const stat = await this.adapter.stat(path);
+			return id && stat ? { id, path, cachedAt: stat.mtime } : null;
+		}));
+
+		const now = Date.now();
+		const entries = found
+			.filter((entry): entry is { id: string; path: string; cachedAt: number } => entry !== null)
+			.sort((a, b) => b.cachedAt - a.cachedAt);
+		const stale: string[] = [];
+		entries.forEach((entry, index) => {
+			if (this.entries.has(entry.id)) return;
+			if (index >= MAX_CACHE_ENTRIES || now - entry.cachedAt > MAX_CACHE_AGE_MS) {
+				stale.push(entry.path);
+			} else {
+				this.entries.set(entry.id, { path: entry.path, cachedAt: entry.cachedAt });
+			}
+		});
+
+		for (const path of stale) {
+			try {
+				await this.adapter.remove(path);
+			} catch (error) {
+				console.log(`[CMDS Eagle] Could not prune cached thumbnail ${path}:`, error instanceof Error ? error.message : error);
+			}
+		}
+		if (stale.length > 0) {
+			console.log(`[CMDS Eagle] Pruned ${stale.length} cached thumbnails`);
+		}
+	}
+
+	getCachedUrl(id: string): string | null {
+		const entry = this.entries.get(id);
+		return entry ? this.adapter.getResourcePath(entry.path) : null;
+	}
+
+	isExpired(id: string): boolean {
+		const entry = this.entries.get(id);
+		return !entry || Date.now() - entry.cachedAt > this.ttl;
+	}
+
+	getThumbnailUrl(id: string): Promise<string | null> {
+		if (!this.isExpired(id) || this.failedRecently(id)) {
+			return Promise.resolve(this.getCachedUrl(id));
+		}
+
+		let request = this.pending.get(id);
+		if (!request) {
+			request = this.fetchThumbnail(id).then((url) => {
+				this.pending.delete(id);
+				return url;
+			});
+			this.pending.set(id, request);
+		}
+		return request;
+	}
+
+	loadInto(el: HTMLElement, id: string, alt = ''): void {
+		const setImage = (url: string) => {
+			el.empty();
+			el.createEl('img', { attr: { src: url, alt } });
+		};
+
+		const cachedUrl = this.getCachedUrl(id);
+		if (cachedUrl) {
+			setImage(cachedUrl);
+		}
+		if (!this.isExpired(id) || this.failedRecently(id)) return;
+
+		this.getThumbnailUrl(id).then((url) => {
+			if (url && url !== cachedUrl) {
+				setImage(url);
+			}
+		});
+	}
+
+	async clear(): Promise<void> {
+		if (await this.adapter.exists(this.cacheDir)) {
+			await this.adapter.rmdir(this.cacheDir, true);
+		}
+		this.entries.clear();
+		this.failedAt.clear();
+	}
+
+	private async fetchThumbnail(id: string): Promise<string | null> {
+		try {
+			const sourcePath = this.safeDecodeUri(await this.api.getThumbnailPath(id));
+			const data = await fs.readFile(sourcePath);
+			const ext = sourcePath.split('.').pop()?.toLowerCase() || 'png';
+
+			if (!(await this.adapter.exists(this.cacheDir))) {
+				await this.adapter.mkdir(this.cacheDir);
+			}
+
+			const previous = this.entries.get(id);
+			const path = `${this.cacheDir}/${id}.${ext}`;
+			if (previous && previous.path !== path) {
+				await this.adapter.remove(previous.path);
+			}
+
+			await this.adapter.writeBinary(path, data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+			this.entries.set(id, { path, cachedAt: Date.now() });
+			this.failedAt.delete(id);
+			return this.adapter.getResourcePath(path);
+		} catch (error) {
+			this.failedAt.set(id, Date.now());
+			console.log(`[CMDS Eagle] Using cached thumbnail for ${id}:`, error instanceof Error ? error.message : error);
+			return this.getCachedUrl(id);
+		}
+	}
+
+	private failedRecently(id: string): boolean {
+		const failedAt = this.failedAt.get(id);
+		return failedAt !== undefined && Date.now() - failedAt < FAILURE_RETRY_MS;
+	}
+
+	private safeDecodeUri(str: string): string {
+		try {
+			return decodeURIComponent(str);
+		} catch {
+			return str;
+		}
+	}
+}
@@ -1,3 +1,5 @@
+import { CMDSEagleError } from './errors';
+
 export interface EagleApiResponse<T> {
 	status: 'success' | 'error';
 	data?: T;
@@ -16,6 +18,8 @@ export interface EagleItem {
 	annotation: string;
 	modificationTime: number;
 	lastModified: number;
+	/** When the item was created in Eagle; the list API's CREATEDATE order sorts by it */
+	btime?: number;
 	width: number;
 	height: number;
 	noThumbnail?: boolean;
@@ -40,6 +44,12 @@ export interface EagleFolder {
 	iconColor?: string;
 }
 
+export interface EagleFolderOption {
+	id: string;
+	name: string;
+	path: string;
+}
+
 export interface EagleLibraryInfo {
 	folders: EagleFolder[];
 	smartFolders: EagleSmartFolder[];
@@ -86,6 +96,8 @@ export interface EagleApplicationInfo {
 
 export type ImagePasteBehavior = 'eagle' | 'local' | 'cloud' | 'ask';
 
+export type EmbedFormat = 'file-url' | 'eagle-id';
+
 export type SearchScope = 'name' | 'tags' | 'annotation' | 'folders';
 
 export const SUPPORTED_IMAGE_EXTENSIONS = [
@@ -97,6 +109,8 @@ export const SUPPORTED_VIDEO_EXTENSIONS = ['mp4', 'mov', 'webm', 'avi', 'mkv'] a
 
 export const SUPPORTED_DOCUMENT_EXTENSIONS = ['pdf', 'psd', 'ai', 'sketch'] as const;
 
+export type FileKind = 'image' | 'video' | 'pdf' | 'design';
+
 export type SupportedExtension = 
 	| typeof SUPPORTED_IMAGE_EXTENSIONS[number] 
 	| typeof SUPPORTED_VIDEO_EXTENSIONS[number]
@@ -104,7 +118,28 @@ export type SupportedExtension =
 
 export type CloudProviderType = 'r2' | 's3' | 'webdav' | 'imghippo' | 'custom';
 
-export type PlatformType = 'darwin' | 'win32';
+export type PasteDestination = 'eagle' | 'local' | 'cloud';
+
+export interface PasteRule {
+	id: string;
+	name: string;
+	enabled: boolean;
+	folderGlob: string;
+	frontmatter: string;
+	fileTypes: string;
+	destination: PasteDestination;
+	eagleFolderId: string;
+	cloudProvider: CloudProviderType | '';
+	tags: string[];
+	filenameTemplate: string;
+}
+
+export type PlatformType = 'darwin' | 'win32' | 'linux';
+
+export interface PathRoot {
+	name: string;
+	path: string;
+}
 
 export interface ComputerProfile {
 	id: string;
@@ -113,9 +148,21 @@ export interface ComputerProfile {
 	username: string;
 	subPath: string;
 	eagleLibraryPath: string;
+	roots?: PathRoot[];
 	isCurrentComputer?: boolean;
 }
 
+export interface EagleLibraryProfile {
+	id: string;
+	name: string;
+	path: string;
+}
+
+export interface LibraryBinding {
+	folder: string;
+	libraryId: string;
+}
+
 export type CrossPlatformConversionMode = 'modify-source' | 'render-only';
 
 export interface CloudProviderConfig {
@@ -169,9 +216,45 @@ export interface CloudUploadResult {
 	publicUrl?: string;
 	key?: string;
 	filename?: string;
-	error?: string;
+	error?: CMDSEagleError;
 }
 
+export interface EmbedTemplates {
+	image: string;
+	video: string;
+	pdf: string;
+	design: string;
+	link: string;
+	metadata: string;
+	card: string;
+}
+
+export const DEFAULT_TEMPLATES: EmbedTemplates = {
+	image: '![{{filename}}]({{url}})',
+	video: '<video src="{{url}}"{{#if posterUrl}} poster="{{posterUrl}}"{{/if}} controls preload="metadata"></video>',
+	pdf: '<iframe class="cmdspace-eagle-pdf" src="{{url}}" title="{{filename}}"></iframe>',
+	design: `{{#if posterUrl}}![{{filename}}]({{posterUrl}})
+{{/if}}{{#if eagleUrl}}[Open {{filename}} in Eagle]({{eagleUrl}}){{else}}[{{filename}}]({{url}}){{/if}}`,
+	link: '{{link}}',
+	metadata: `> **{{extUpper}}** | {{size}} | {{#if dimensions}}{{dimensions}}{{else}}N/A{{/if}} | {{#if uploaded}}☁️{{else}}📁{{/if}} | {{#if tags}}{{tags}}{{else}}No tags{{/if}}
+> [Open in Eagle]({{eagleUrl}}){{#if cloudUrl}} | [Cloud]({{cloudUrl}}){{/if}}`,
+	card: `> [!cmdspace-eagle] {{name}}
+> 
+{{#if imageUrl}}> ![{{name}}]({{imageUrl}})
+>
+{{/if}}> | Property | Value |
+> |----------|-------|
+> | **Type** | {{extUpper}} |
+> | **Size** | {{size}} |
+> | **Dimensions** | {{#if dimensions}}{{dimensions}}{{else}}N/A{{/if}} |
+> | **R2 Status** | {{#if uploaded}}☁️ Uploaded{{else}}📁 Local only{{/if}} |
+> | **Tags** | {{#if tags}}{{tags}}{{else}}None{{/if}} |
+{{#if annotation}}> | **Annotation** | {{annotation}} |
+{{/if}}> [Open in Eagle]({{eagleUrl}}){{#if cloudUrl}} | [Cloud URL]({{cloudUrl}}){{/if}}
+
+`,
+};
+
 export interface CMDSPACEEagleSettings {
 	eagleApiBaseUrl: string;
 	connectionTimeout: number;
@@ -183,13 +266,20 @@ export interface CMDSPACEEagleSettings {
 	insertThumbnail: boolean;
 	thumbnailSize: 'small' | 'medium' | 'large';
 	defaultFolder: string;
+	askFolderOnPaste: boolean;
+	noteFolders: Record<string, string>;
+	createdNoteFolders: string[];
 	r2WorkerUrl: string;
 	r2ApiKey: string;
 	r2PublicUrl: string;
 	imageDisplayMode: 'local' | 'cloud' | 'both';
 	embedImageInCard: boolean;
 	insertAsEmbed: boolean;
+	embedFormat: EmbedFormat;
+	editorSuggestTrigger: string;
 	imagePasteBehavior: ImagePasteBehavior;
+	pasteRules: PasteRule[];
+	importPastedHtmlImages: boolean;
 	activeCloudProvider: CloudProviderType;
 	searchScope: SearchScope[];
 	searchFileTypes: string[];
@@ -204,6 +294,10 @@ export interface CMDSPACEEagleSettings {
 	autoConvertCrossPlatformPaths: boolean;
 	crossPlatformConversionMode: CrossPlatformConversionMode;
 	computers: ComputerProfile[];
+	libraries: EagleLibraryProfile[];
+	defaultLibraryId: string;
+	libraryBindings: LibraryBinding[];
+	templates: EmbedTemplates;
 }
 
 export const DEFAULT_SETTINGS: CMDSPACEEagleSettings = {
@@ -217,13 +311,20 @@ export const DEFAULT_SETTINGS: CMDSPACEEagleSettings = {
 	insertThumbnail: true,
 	thumbnailSize: 'medium',
 	defaultFolder: '',
+	askFolderOnPaste: false,
+	noteFolders: {},
+	createdNoteFolders: [],
 	r2WorkerUrl: '',
 	r2ApiKey: '',
 	r2PublicUrl: '',
 	imageDisplayMode: 'cloud',
 	embedImageInCard: true,
 	insertAsEmbed: true,
+	embedFormat: 'file-url',
+	editorSuggestTrigger: '@eagle ',
 	imagePasteBehavior: 'ask',
+	pasteRules: [],
+	importPastedHtmlImages: false,
 	activeCloudProvider: 'imghippo',
 	searchScope: ['name', 'tags'],
 	searchFileTypes: [...SUPPORTED_IMAGE_EXTENSIONS],
@@ -276,6 +377,10 @@ export const DEFAULT_SETTINGS: CMDSPACEEagleSettings = {
 	autoConvertCrossPlatformPaths: false,
 	crossPlatformConversionMode: 'modify-source',
 	computers: [],
+	libraries: [],
+	defaultLibraryId: '',
+	libraryBindings: [],
+	templates: { ...DEFAULT_TEMPLATES },
 };
 
 export interface AddFromPathRequest {
@@ -296,7 +401,7 @@ export interface R2UploadResult {
 	success: boolean;
 	key?: string;
 	filename?: string;
-	error?: string;
+	error?: CMDSEagleError;
 }
 
 export interface CMDSPACELinkCard {